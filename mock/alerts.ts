@@ -0,0 +1,168 @@
+import type { Connect, Plugin } from 'vite';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 3_600_000).toISOString();
+
+/** Sample Mumbai alerts (one polygon, one multipolygon, one point), re-timestamped on every request so they never expire during development. */
+export const buildMockAlerts = () => [
+  {
+    id: 'mock-mum-001',
+    severity: 'critical',
+    issuedAt: minutesAgo(15),
+    expiresAt: hoursFromNow(6),
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[
+        [72.8352, 19.0003], [72.8781, 18.9968], [72.8830, 19.0352], [72.8405, 19.0401], [72.8352, 19.0003],
+      ]],
+    },
+    source: { name: 'BMC Disaster Management' },
+    text: {
+      en: {
+        title: 'Flash Flood Warning',
+        description: 'Heavy rainfall causing flash floods in low-lying areas',
+        areaName: 'Mumbai Central',
+      },
+      hi: {
+        title: 'अचानक बाढ़ की चेतावनी',
+        description: 'भारी बारिश से निचले इलाकों में अचानक बाढ़',
+        areaName: 'मुंबई सेंट्रल',
+      },
+    },
+  },
+  {
+    id: 'mock-mum-002',
+    severity: 'high',
+    issuedAt: minutesAgo(60),
+    expiresAt: hoursFromNow(4),
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: [
+        [[[72.8401, 19.0521], [72.8612, 19.0518], [72.8625, 19.0702], [72.8410, 19.0710], [72.8401, 19.0521]]],
+        [[[72.8228, 19.0545], [72.8331, 19.0540], [72.8335, 19.0641], [72.8230, 19.0648], [72.8228, 19.0545]]],
+      ],
+    },
+    source: { name: 'BMC Disaster Management' },
+    text: {
+      en: {
+        title: 'Water Logging Alert',
+        description: 'Severe water logging reported on major roads',
+        areaName: 'Bandra East',
+      },
+      hi: {
+        title: 'जल भराव अलर्ट',
+        description: 'प्रमुख सड़कों पर भारी जल भराव की सूचना',
+        areaName: 'बांद्रा पूर्व',
+      },
+    },
+  },
+  {
+    id: 'mock-mum-003',
+    severity: 'medium',
+    issuedAt: minutesAgo(120),
+    expiresAt: hoursFromNow(12),
+    geometry: { type: 'Point', coordinates: [72.906, 19.1176] },
+    source: { name: 'IMD Mumbai' },
+    text: {
+      en: {
+        title: 'River Level Rising',
+        description: 'Mithi River level approaching danger mark',
+        areaName: 'Powai',
+      },
+      hi: {
+        title: 'नदी का जलस्तर बढ़ रहा है',
+        description: 'मीठी नदी का जलस्तर खतरे के निशान के करीब',
+        areaName: 'पवई',
+      },
+    },
+  },
+];
+
+const capInfo = (language: string, headline: string, description: string, areaDesc: string, area: string) => `
+    <info>
+      <language>${language}</language>
+      <category>Met</category>
+      <event>Heavy Rainfall</event>
+      <urgency>Immediate</urgency>
+      <severity>Severe</severity>
+      <certainty>Likely</certainty>
+      <expires>${hoursFromNow(8)}</expires>
+      <senderName>India Meteorological Department</senderName>
+      <headline>${headline}</headline>
+      <description>${description}</description>
+      <instruction>${language === 'hi' ? 'निचले इलाकों से दूर रहें।' : 'Stay away from low-lying areas.'}</instruction>
+      <web>https://mausam.imd.gov.in/</web>
+      <area>
+        <areaDesc>${areaDesc}</areaDesc>
+        ${area}
+      </area>
+    </info>`;
+
+/** A CAP 1.2 bundle: one bilingual alert, one test message (ignored) and one cancellation. */
+export const buildMockCapFeed = () => {
+  const kurla = '<circle>19.0726,72.8845 3</circle>';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alerts>
+  <alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+    <identifier>mock-cap-001</identifier>
+    <sender>imd@imd.gov.in</sender>
+    <sent>${minutesAgo(20)}</sent>
+    <status>Actual</status>
+    <msgType>Alert</msgType>
+    <scope>Public</scope>
+    ${capInfo('en-IN', 'Very heavy rainfall warning', 'Very heavy rainfall likely over Kurla during the next 3 hours.', 'Kurla, Mumbai Suburban', kurla)}
+    ${capInfo('hi', 'अति भारी वर्षा की चेतावनी', 'अगले 3 घंटों में कुर्ला में अति भारी वर्षा की संभावना।', 'कुर्ला, मुंबई उपनगर', kurla)}
+  </alert>
+  <alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+    <identifier>mock-cap-test</identifier>
+    <sender>imd@imd.gov.in</sender>
+    <sent>${minutesAgo(5)}</sent>
+    <status>Test</status>
+    <msgType>Alert</msgType>
+    <scope>Public</scope>
+  </alert>
+  <alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+    <identifier>mock-cap-002</identifier>
+    <sender>cwc@nic.in</sender>
+    <sent>${minutesAgo(3)}</sent>
+    <status>Actual</status>
+    <msgType>Cancel</msgType>
+    <scope>Public</scope>
+    <references>cwc@nic.in,mock-cap-000,${minutesAgo(90)}</references>
+  </alert>
+</alerts>`;
+};
+
+const sendJson = (res: Parameters<Connect.NextHandleFunction>[1], body: unknown) => {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+const alertsMiddleware: Connect.NextHandleFunction = (req, res, next) => {
+  const path = req.url?.split('?')[0];
+  if (req.method === 'GET' && path === '/api/alerts') {
+    sendJson(res, { alerts: buildMockAlerts() });
+    return;
+  }
+  if (req.method === 'GET' && path === '/api/alerts/cap') {
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/cap+xml; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(buildMockCapFeed());
+    return;
+  }
+  next();
+};
+
+/** Serves `/api/alerts` (JSON) and `/api/alerts/cap` (CAP 1.2 XML) from `vite` and `vite preview` so the app runs without a real alert feed. */
+export const mockAlertServer = (): Plugin => ({
+  name: 'mock-alert-server',
+  configureServer(server) {
+    server.middlewares.use(alertsMiddleware);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(alertsMiddleware);
+  },
+});
@@ -0,0 +1,30 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+/**
+ * Publishes a data file that lives in `src/` at `fileName` under the site root: served
+ * from the source in dev and written to the build output as it is, unhashed, so a
+ * deployed copy can be edited in place. The app imports the same source for its
+ * bundled fallback, which keeps one copy in the repo.
+ */
+export function publishDataFile(fileName: string, source: string): Plugin {
+  let config: ResolvedConfig;
+  const read = () => readFileSync(path.resolve(config.root, source));
+
+  return {
+    name: `publish-data-file:${fileName}`,
+    configResolved(resolved) {
+      config = resolved;
+    },
+    configureServer(server) {
+      server.middlewares.use(`${config.base}${fileName}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(read());
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName, source: read() });
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { serviceWorkerManifest } from './serviceWorker';
+
+const WORKER = "const BUILD_ID = 'development';\nconst BUILD_ASSETS = [];\nself.addEventListener('install', () => {});\n";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'sw-manifest-'));
+  mkdirSync(path.join(root, 'dist'));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+type Hook = (...args: unknown[]) => unknown;
+
+/** Runs the plugin's build hooks in the order Vite does, over a bundle with these file names. */
+const build = (fileNames: string[], worker: string | null = WORKER) => {
+  const file = path.join(root, 'dist', 'sw.js');
+  if (worker !== null) writeFileSync(file, worker);
+  const plugin = serviceWorkerManifest();
+  (plugin.configResolved as Hook)({ root, base: '/', build: { outDir: 'dist', assetsDir: 'assets' } });
+  (plugin.generateBundle as Hook)({}, Object.fromEntries(fileNames.map((fileName) => [fileName, {}])));
+  (plugin.closeBundle as Hook)();
+  return worker === null ? null : readFileSync(file, 'utf8');
+};
+
+const buildId = (worker: string | null) => worker?.match(/const BUILD_ID = '(\w+)';/)?.[1];
+
+describe('serviceWorkerManifest', () => {
+  it('lists every emitted asset, lazy chunks included, but not source maps or other files', () => {
+    const worker = build([
+      'index.html',
+      'assets/index-a1b2.js',
+      'assets/index-a1b2.js.map',
+      'assets/FloodMap-c3d4.js',
+      'assets/index-e5f6.css',
+      'data/emergency-contacts.json',
+    ]);
+    expect(worker).toContain(
+      'const BUILD_ASSETS = ["/assets/FloodMap-c3d4.js","/assets/index-a1b2.js","/assets/index-e5f6.css"];'
+    );
+    expect(worker).toContain("self.addEventListener('install', () => {});");
+  });
+
+  it('stamps a build ID that changes with the assets', () => {
+    const first = buildId(build(['assets/index-a1b2.js']));
+    const same = buildId(build(['assets/index-a1b2.js']));
+    const changed = buildId(build(['assets/index-ffff.js']));
+    expect(first).toMatch(/^[0-9a-f]{12}$/);
+    expect(same).toBe(first);
+    expect(changed).not.toBe(first);
+  });
+
+  it('fails the build when the worker has lost its placeholders', () => {
+    expect(() => build(['assets/index-a1b2.js'], "const BUILD_ID = 'abc';\n")).toThrow(/placeholders/);
+  });
+
+  it('does nothing when the build has no worker', () => {
+    expect(() => build(['assets/index-a1b2.js'], null)).not.toThrow();
+  });
+});
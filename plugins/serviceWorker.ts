@@ -0,0 +1,49 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const BUILD_ID_PLACEHOLDER = "const BUILD_ID = 'development';";
+const ASSETS_PLACEHOLDER = 'const BUILD_ASSETS = [];';
+
+/**
+ * Stamps `public/sw.js` in the build output with a build ID and the full list of emitted
+ * assets, lazy chunks included. The ID changes whenever any asset does, so the browser sees
+ * a new worker on every deploy, reinstalls it, precaches the new assets and drops the
+ * caches of the previous build.
+ */
+export function serviceWorkerManifest(): Plugin {
+  let config: ResolvedConfig;
+  let assets: string[] = [];
+
+  return {
+    name: 'service-worker-manifest',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      assets = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith(`${config.build.assetsDir}/`) && !fileName.endsWith('.map'))
+        .map((fileName) => `${config.base}${fileName}`)
+        .sort();
+    },
+    // Public files are copied before the bundle is written, so the copy exists by now.
+    closeBundle() {
+      const file = path.resolve(config.root, config.build.outDir, 'sw.js');
+      if (!existsSync(file)) return;
+      const source = readFileSync(file, 'utf8');
+      if (!source.includes(BUILD_ID_PLACEHOLDER) || !source.includes(ASSETS_PLACEHOLDER)) {
+        throw new Error('sw.js no longer contains the BUILD_ID / BUILD_ASSETS placeholders');
+      }
+      // Asset names are content-hashed, so hashing them with the worker's own source covers every change.
+      const buildId = createHash('sha256').update(source).update(assets.join('\n')).digest('hex').slice(0, 12);
+      writeFileSync(
+        file,
+        source
+          .replace(BUILD_ID_PLACEHOLDER, `const BUILD_ID = '${buildId}';`)
+          .replace(ASSETS_PLACEHOLDER, `const BUILD_ASSETS = ${JSON.stringify(assets)};`)
+      );
+    },
+  };
+}
@@ -0,0 +1,211 @@
+/*
+ * Service worker for the offline app shell.
+ *
+ * The national emergency numbers and safety tips ship inside the JS bundle,
+ * so precaching the shell (index.html plus every asset it references) is what
+ * keeps the Emergency tab and its tel: links usable with no network at all.
+ * The regional numbers live in /data/emergency-contacts.json, which is
+ * precached alongside and refreshed stale-while-revalidate, so an edited file
+ * reaches users without a new build.
+ *
+ * `vite build` replaces BUILD_ID and BUILD_ASSETS below (plugins/serviceWorker.ts).
+ * The new ID makes every deploy a byte-different worker, so the browser installs
+ * it, which precaches every asset of the new build, lazy chunks included, and
+ * activation deletes the previous build's shell and runtime caches. Map tiles do
+ * not depend on the build and are kept; bump TILE_CACHE_VERSION to drop them.
+ */
+const BUILD_ID = 'development';
+const BUILD_ASSETS = [];
+const SHELL_CACHE = `shell-${BUILD_ID}`;
+const RUNTIME_CACHE = `runtime-${BUILD_ID}`;
+const TILE_CACHE_VERSION = 'v1';
+const TILE_CACHE = `map-tiles-${TILE_CACHE_VERSION}`;
+const MAX_CACHED_TILES = 600;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/icon-192.png',
+  '/icon-512.png',
+  '/icon-maskable-512.png',
+  '/apple-touch-icon.png',
+];
+
+/** Data files the app re-fetches itself; they go in the runtime cache so staleWhileRevalidate keeps them fresh. */
+const DATA_URLS = ['/data/emergency-contacts.json'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll([...SHELL_URLS, ...BUILD_ASSETS].map((url) => new Request(url, { cache: 'reload' })));
+      await (await caches.open(RUNTIME_CACHE)).addAll(DATA_URLS);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => ![SHELL_CACHE, RUNTIME_CACHE, TILE_CACHE].includes(key))
+          .map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+/**
+ * Only a complete same-origin page may become the offline shell: a 404 or 500 page, or a
+ * redirect to some other origin's login wall, would otherwise replace it. Cache writes are
+ * handed to `waitUntil` so the worker is not stopped before they finish.
+ */
+const networkFirstNavigation = async (event) => {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok && response.type === 'basic') {
+      const copy = response.clone();
+      event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy)));
+    }
+    return response;
+  } catch {
+    // Every route is rendered client-side, so the cached shell serves them all.
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+const cacheFirst = async (event) => {
+  const cached = await caches.match(event.request);
+  if (cached) return cached;
+  const response = await fetch(event.request);
+  if (response.ok) {
+    const copy = response.clone();
+    event.waitUntil(caches.open(RUNTIME_CACHE).then((cache) => cache.put(event.request, copy)));
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then((response) => {
+    if (response.ok) return cache.put(event.request, response.clone()).then(() => response);
+    return response;
+  });
+  // Keep the worker alive for the refresh even when the cached copy has already answered.
+  event.waitUntil(network.catch(() => {}));
+  return cached || network.catch(() => Response.error());
+};
+
+/** Matches z/x/y raster tiles from any tile server, whichever VITE_MAP_TILE_URL points at. */
+const isMapTile = (request, url) =>
+  request.destination === 'image' && /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/.test(url.pathname);
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  // Cache keys come back in insertion order, so the oldest tiles go first.
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)));
+};
+
+/** Tiles the user has already looked at stay viewable offline; the app falls back to its bundled basemap for the rest. */
+const cachedTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Tile servers usually answer without CORS headers, so the response is opaque and `ok` is always false.
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    trimCache(TILE_CACHE, MAX_CACHED_TILES);
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET') return;
+
+  if (isMapTile(request, url)) {
+    event.respondWith(cachedTile(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+  // API responses are cached by the app itself (TanStack Query, IndexedDB).
+  if (url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(event));
+  } else if (url.pathname.startsWith('/assets/')) {
+    // Vite fingerprints these, so a cached copy is never stale.
+    event.respondWith(cacheFirst(event));
+  } else {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+/*
+ * Background Sync: the outbox and its delivery logic live in the page, so the
+ * worker only wakes any open client and asks it to flush.
+ */
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'report-outbox') return;
+  event.waitUntil(
+    (async () => {
+      const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      clients.forEach((client) => client.postMessage({ type: 'flush-outbox' }));
+    })()
+  );
+});
+
+/*
+ * Web Push: the server sends `{ id, title, body, severity, url }` for alerts that
+ * match this subscription's severity threshold and location (scripts/push-server.mjs).
+ * The tag matches the one the page uses, so an alert that arrives both ways shows once.
+ */
+self.addEventListener('push', (event) => {
+  let alert = {};
+  try {
+    alert = event.data ? event.data.json() : {};
+  } catch {
+    alert = { title: event.data ? event.data.text() : '' };
+  }
+  const url = alert.url || (alert.id ? `/?tab=map&alert=${encodeURIComponent(alert.id)}` : '/?tab=alerts');
+  event.waitUntil(
+    self.registration.showNotification(alert.title || 'Flood alert', {
+      body: alert.body || '',
+      tag: alert.id ? `alert-${alert.id}` : undefined,
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      requireInteraction: alert.severity === 'critical',
+      data: { url, alertId: alert.id },
+    })
+  );
+});
+
+/** Focuses an open window and lets the app route to the alert, or opens the deep link in a new one. */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const { url = '/', alertId } = event.notification.data || {};
+  event.waitUntil(
+    (async () => {
+      const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        await client.focus();
+        client.postMessage({ type: 'open-alert', alertId });
+        return;
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});
@@ -0,0 +1,171 @@
+// Local Web Push server for trying alert notifications end to end.
+//
+//   npm run push:server
+//     Serves the subscription API on http://localhost:4100 (PUSH_PORT to change).
+//     Set VITE_PUSH_SERVER_URL=http://localhost:4100 in .env.local, then
+//     `npm run build && npm run preview`; the service worker only runs in production builds.
+//
+//   npm run push:send -- <severity> "<title>" "<body>" [lat lng] [alertId]
+//     Asks the running server to push a test alert to every matching subscriber.
+//
+// VAPID keys and subscriptions are kept in .push-server/ so they survive restarts.
+import { createServer } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import webpush from 'web-push';
+
+const PORT = Number(process.env.PUSH_PORT ?? 4100);
+const STATE_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', '.push-server');
+const KEYS_FILE = join(STATE_DIR, 'vapid.json');
+const SUBSCRIPTIONS_FILE = join(STATE_DIR, 'subscriptions.json');
+
+const SEVERITIES = ['critical', 'high', 'medium', 'low'];
+// Same as NOTIFICATION_RADIUS_KM in src/lib/alerts/notifications.ts.
+const RADIUS_KM = 50;
+
+const readJson = (file, fallback) => (existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : fallback);
+const writeJson = (file, value) => {
+  mkdirSync(STATE_DIR, { recursive: true });
+  writeFileSync(file, JSON.stringify(value, null, 2));
+};
+
+const haversineKm = (a, b) => {
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+/** A subscriber gets an alert at or above their threshold, and near them when both locations are known. */
+const wantsAlert = (entry, alert) =>
+  entry.minSeverity !== null &&
+  SEVERITIES.indexOf(alert.severity) <= SEVERITIES.indexOf(entry.minSeverity) &&
+  (!entry.location || !alert.location || haversineKm(entry.location, alert.location) <= RADIUS_KM);
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', (chunk) => (data += chunk));
+    request.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const serve = () => {
+  let keys = readJson(KEYS_FILE, null);
+  if (!keys) {
+    keys = webpush.generateVAPIDKeys();
+    writeJson(KEYS_FILE, keys);
+  }
+  webpush.setVapidDetails(process.env.PUSH_SUBJECT ?? 'mailto:alerts@localhost', keys.publicKey, keys.privateKey);
+
+  let subscriptions = readJson(SUBSCRIPTIONS_FILE, []);
+  const save = () => writeJson(SUBSCRIPTIONS_FILE, subscriptions);
+
+  const broadcast = async (alert) => {
+    const targets = subscriptions.filter((entry) => wantsAlert(entry, alert));
+    const payload = JSON.stringify({
+      id: alert.id,
+      title: alert.title,
+      body: alert.body,
+      severity: alert.severity,
+      url: `/?tab=map&alert=${encodeURIComponent(alert.id)}`,
+    });
+    const results = await Promise.allSettled(targets.map((entry) => webpush.sendNotification(entry.subscription, payload)));
+    // 404/410 mean the browser dropped the subscription; forget it.
+    const gone = new Set(
+      results
+        .map((result, index) => (result.status === 'rejected' && [404, 410].includes(result.reason?.statusCode) ? targets[index].subscription.endpoint : null))
+        .filter(Boolean)
+    );
+    if (gone.size) {
+      subscriptions = subscriptions.filter((entry) => !gone.has(entry.subscription.endpoint));
+      save();
+    }
+    return { matched: targets.length, delivered: results.filter((result) => result.status === 'fulfilled').length };
+  };
+
+  const server = createServer(async (request, response) => {
+    const send = (status, body) => {
+      response.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      });
+      response.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    try {
+      const route = `${request.method} ${new URL(request.url, 'http://localhost').pathname}`;
+      switch (route) {
+        case 'OPTIONS /vapid-public-key':
+        case 'OPTIONS /subscriptions':
+        case 'OPTIONS /alerts':
+          return send(204);
+        case 'GET /vapid-public-key':
+          return send(200, { publicKey: keys.publicKey });
+        case 'POST /subscriptions': {
+          const { subscription, minSeverity = null, location = null, language = 'en' } = await readBody(request);
+          if (!subscription?.endpoint) return send(400, { error: 'subscription.endpoint is required' });
+          subscriptions = [
+            ...subscriptions.filter((entry) => entry.subscription.endpoint !== subscription.endpoint),
+            { subscription, minSeverity, location, language, updatedAt: new Date().toISOString() },
+          ];
+          save();
+          return send(201, { subscribers: subscriptions.length });
+        }
+        case 'DELETE /subscriptions': {
+          const { endpoint } = await readBody(request);
+          subscriptions = subscriptions.filter((entry) => entry.subscription.endpoint !== endpoint);
+          save();
+          return send(204);
+        }
+        case 'POST /alerts': {
+          const alert = await readBody(request);
+          if (!SEVERITIES.includes(alert.severity) || !alert.title) {
+            return send(400, { error: `severity (${SEVERITIES.join('|')}) and title are required` });
+          }
+          return send(200, await broadcast({ id: `push-${Date.now().toString(36)}`, ...alert }));
+        }
+        default:
+          return send(404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error(error);
+      return send(500, { error: String(error) });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Push server on http://localhost:${PORT} (${subscriptions.length} saved subscriptions)`);
+  });
+};
+
+const sendTestAlert = async ([severity = 'critical', title = 'Test flood alert', body = 'This is a test alert', lat, lng, id]) => {
+  const alert = {
+    severity,
+    title,
+    body,
+    ...(lat && lng && { location: { lat: Number(lat), lng: Number(lng) } }),
+    ...(id && { id }),
+  };
+  const response = await fetch(`http://localhost:${PORT}/alerts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(alert),
+  });
+  console.log(response.status, await response.text());
+  if (!response.ok) process.exit(1);
+};
+
+const [command = 'serve', ...args] = process.argv.slice(2);
+if (command === 'send') await sendTestAlert(args);
+else serve();
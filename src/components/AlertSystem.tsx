@@ -1,101 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
-import { AlertTriangle, MapPin, Clock, Volume2, Share, Bell } from 'lucide-react';
+import React, { useState } from 'react';
+import { AlertTriangle, MapPin, Clock, Volume2, Share, Bell, Loader2, RotateCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useNow } from '@/hooks/use-now';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { alertCoordinates, localizeAlert, type AlertSeverity, type FloodAlert } from '@/lib/alerts/types';
+import { alertsNear, type AlertSortOrder } from '@/lib/alerts/proximity';
+import { alertReadout } from '@/lib/alerts/notifications';
+import { formatDistance } from '@/lib/geo';
+import { formatRelativeTime } from '@/lib/datetime';
+import { useTranslation } from '@/hooks/use-translation';
+import ReadAloudButton from '@/components/ReadAloudButton';
+import LocalityName from '@/components/LocalityName';
+
+const RADIUS_OPTIONS_KM = [5, 10, 25, 50];
 
 interface AlertSystemProps {
-  currentLocation: {lat: number, lng: number} | null;
-  selectedLanguage: string;
+  onViewOnMap: (alertId: string) => void;
 }
 
-const AlertSystem: React.FC<AlertSystemProps> = ({ currentLocation, selectedLanguage }) => {
-  const [alerts, setAlerts] = useState<any[]>([]);
-
-  const translations = {
-    en: {
-      title: "Flood Alerts",
-      subtitle: "Real-time flood warnings in your area",
-      noAlerts: "No active alerts in your area",
-      stayAlert: "Stay alert and be prepared",
-      shareAlert: "Share Alert",
-      viewOnMap: "View on Map",
-      minutesAgo: "minutes ago",
-      hoursAgo: "hours ago",
-      critical: "CRITICAL",
-      high: "HIGH",
-      medium: "MEDIUM",
-      low: "LOW",
-      safetyTips: "Safety Tips",
-      tip1: "Move to higher ground immediately",
-      tip2: "Avoid walking through flood water",
-      tip3: "Keep emergency supplies ready",
-      tip4: "Stay informed through official channels"
-    },
-    hi: {
-      title: "बाढ़ अलर्ट",
-      subtitle: "आपके क्षेत्र में वास्तविक समय बाढ़ चेतावनी",
-      noAlerts: "आपके क्षेत्र में कोई सक्रिय अलर्ट नहीं",
-      stayAlert: "सतर्क रहें और तैयार रहें",
-      shareAlert: "अलर्ट साझा करें",
-      viewOnMap: "मानचित्र पर देखें",
-      minutesAgo: "मिनट पहले",
-      hoursAgo: "घंटे पहले",
-      critical: "गंभीर",
-      high: "उच्च",
-      medium: "मध्यम",
-      low: "कम",
-      safetyTips: "सुरक्षा सुझाव",
-      tip1: "तुरंत ऊंची जगह जाएं",
-      tip2: "बाढ़ के पानी में चलने से बचें",
-      tip3: "आपातकालीन सामग्री तैयार रखें",
-      tip4: "आधिकारिक चैनलों के माध्यम से जानकारी रखें"
-    }
-  };
+const AlertSystem: React.FC<AlertSystemProps> = ({ onViewOnMap }) => {
+  const { t, language } = useTranslation();
+  const { location: currentLocation } = useGeolocation();
+  const { data: alerts = [], isPending, isError, refetch, isRefetching } = useAlerts();
+  const [radius, setRadius] = useState('all');
+  const [sortBy, setSortBy] = useState<AlertSortOrder>('severity');
+  const now = useNow();
 
-  const t = translations[selectedLanguage as keyof typeof translations];
+  const formatAge = (issuedAt: string) => formatRelativeTime(issuedAt, language, now);
 
-  useEffect(() => {
-    // Simulate real-time alerts
-    const mockAlerts = [
-      {
-        id: 1,
-        severity: 'critical',
-        title: 'Flash Flood Warning',
-        description: 'Heavy rainfall causing flash floods in low-lying areas',
-        location: 'Mumbai Central',
-        distance: '2.3 km',
-        time: '15 minutes ago',
-        coordinates: { lat: 19.0176, lng: 72.8562 }
-      },
-      {
-        id: 2,
-        severity: 'high',
-        title: 'Water Logging Alert',
-        description: 'Severe water logging reported on major roads',
-        location: 'Bandra East',
-        distance: '5.7 km',
-        time: '1 hour ago',
-        coordinates: { lat: 19.0596, lng: 72.8295 }
-      },
-      {
-        id: 3,
-        severity: 'medium',
-        title: 'River Level Rising',
-        description: 'Mithi River level approaching danger mark',
-        location: 'Powai',
-        distance: '8.1 km',
-        time: '2 hours ago',
-        coordinates: { lat: 19.1176, lng: 72.9060 }
-      }
-    ];
-    
-    setAlerts(mockAlerts);
-  }, []);
+  const nearbyAlerts = alertsNear(alerts, currentLocation, {
+    radiusKm: radius === 'all' ? null : Number(radius),
+    sortBy,
+  });
 
-  const severityConfig = {
+  const severityConfig: Record<AlertSeverity, { color: string; icon: string; bgColor: string }> = {
     critical: { 
       color: 'bg-red-100 text-red-800 border-red-300', 
       icon: '🚨',
@@ -118,19 +62,28 @@ const AlertSystem: React.FC<AlertSystemProps> = ({ currentLocation, selectedLang
     }
   };
 
-  const handleShareAlert = (alert: any) => {
-    const text = `🚨 Flood Alert: ${alert.title}\n📍 Location: ${alert.location}\n⏰ ${alert.time}\n\n${alert.description}`;
+  const safetyTips = [t('alerts.tip1'), t('alerts.tip2'), t('alerts.tip3'), t('alerts.tip4')];
+
+  const handleShareAlert = (alert: FloodAlert) => {
+    const { title, areaName, description } = localizeAlert(alert, language);
+    const text = t('alerts.shareText', {
+      title,
+      area: areaName,
+      time: formatAge(alert.issuedAt),
+      description,
+      source: alert.source.name,
+    });
     
     if (navigator.share) {
       navigator.share({
-        title: 'Flood Alert',
+        title: t('alerts.shareTitle'),
         text: text,
       });
     } else {
       navigator.clipboard.writeText(text);
       toast({
-        title: "Alert Copied",
-        description: "Alert details copied to clipboard",
+        title: t('alerts.alertCopied'),
+        description: t('alerts.alertCopiedDescription'),
       });
     }
   };
@@ -138,22 +91,82 @@ const AlertSystem: React.FC<AlertSystemProps> = ({ currentLocation, selectedLang
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t.title}</h2>
-        <p className="text-gray-600">{t.subtitle}</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('alerts.title')}</h2>
+        <p className="text-gray-600">{t('alerts.subtitle')}</p>
+        {alerts.length > 0 && (
+          <Badge variant="outline" className="mt-2">
+            {t('alerts.activeCount', { count: alerts.length })}
+          </Badge>
+        )}
       </div>
 
-      {alerts.length === 0 ? (
+      {currentLocation && alerts.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          <Select value={radius} onValueChange={setRadius}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border shadow-lg z-50">
+              {RADIUS_OPTIONS_KM.map((km) => (
+                <SelectItem key={km} value={String(km)} className="hover:bg-gray-100">
+                  {t('alerts.within', { distance: formatDistance(km, language) })}
+                </SelectItem>
+              ))}
+              <SelectItem value="all" className="hover:bg-gray-100">{t('alerts.allAreas')}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as AlertSortOrder)}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white border shadow-lg z-50">
+              <SelectItem value="severity" className="hover:bg-gray-100">{t('alerts.sortBySeverity')}</SelectItem>
+              <SelectItem value="distance" className="hover:bg-gray-100">{t('alerts.sortByDistance')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {isPending ? (
+        <Card>
+          <CardContent className="p-8 flex items-center justify-center space-x-2 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>{t('alerts.loading')}</span>
+          </CardContent>
+        </Card>
+      ) : isError && alerts.length === 0 ? (
+        <Card className="bg-gray-50 border-gray-200">
+          <CardContent className="p-8 text-center">
+            <AlertTriangle className="w-12 h-12 text-gray-500 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">{t('alerts.loadError')}</h3>
+            <p className="text-gray-600 mb-4">{t('alerts.checkConnection')}</p>
+            <Button variant="outline" onClick={() => refetch()} disabled={isRefetching}>
+              <RotateCw className={`w-4 h-4 mr-2 ${isRefetching ? 'animate-spin' : ''}`} />
+              {t('alerts.retry')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : alerts.length > 0 && nearbyAlerts.length === 0 ? (
         <Card className="bg-green-50 border-green-200">
           <CardContent className="p-8 text-center">
             <Bell className="w-12 h-12 text-green-600 mx-auto mb-4" />
-            <h3 className="text-lg font-semibold text-green-800 mb-2">{t.noAlerts}</h3>
-            <p className="text-green-600">{t.stayAlert}</p>
+            <h3 className="text-lg font-semibold text-green-800 mb-2">{t('alerts.noAlertsInRadius')}</h3>
+            <p className="text-green-600">{t('alerts.widenRadius')}</p>
+          </CardContent>
+        </Card>
+      ) : alerts.length === 0 ? (
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="p-8 text-center">
+            <Bell className="w-12 h-12 text-green-600 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-green-800 mb-2">{t('alerts.noAlerts')}</h3>
+            <p className="text-green-600">{t('alerts.stayAlert')}</p>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-4">
-          {alerts.map((alert) => {
-            const config = severityConfig[alert.severity as keyof typeof severityConfig];
+          {nearbyAlerts.map(({ alert, distanceKm }) => {
+            const config = severityConfig[alert.severity];
+            const text = localizeAlert(alert, language);
             return (
               <Card key={alert.id} className={`${config.bgColor} border-l-4`}>
                 <CardHeader>
@@ -163,38 +176,52 @@ const AlertSystem: React.FC<AlertSystemProps> = ({ currentLocation, selectedLang
                       <div>
                         <div className="flex items-center space-x-2 mb-1">
                           <Badge className={config.color}>
-                            {t[alert.severity as keyof typeof t]}
+                            {t(`alerts.severity.${alert.severity}`)}
                           </Badge>
                           <span className="text-sm text-gray-500 flex items-center">
                             <Clock className="w-3 h-3 mr-1" />
-                            {alert.time}
+                            {formatAge(alert.issuedAt)}
                           </span>
                         </div>
-                        <CardTitle className="text-lg">{alert.title}</CardTitle>
+                        <CardTitle className="text-lg">{text.title}</CardTitle>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => handleShareAlert(alert)}
-                    >
-                      <Share className="w-4 h-4" />
-                    </Button>
+                    <div className="flex items-center">
+                      <ReadAloudButton id={alert.id} parts={alertReadout(alert, language, t)} />
+                      <Button
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleShareAlert(alert)}
+                      >
+                        <Share className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-gray-700 mb-3">{alert.description}</p>
+                  <p className="text-gray-700 mb-1">{text.description}</p>
+                  <LocalityName coordinates={alertCoordinates(alert)} className="block text-sm text-gray-600 mb-1" />
+                  <p className="text-xs text-gray-500 mb-3">{t('alerts.issuedBy')}: {alert.source.name}</p>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-4 text-sm text-gray-600">
                       <div className="flex items-center space-x-1">
                         <MapPin className="w-4 h-4" />
-                        <span>{alert.location}</span>
+                        <span>{text.areaName}</span>
                       </div>
-                      <span>•</span>
-                      <span>{alert.distance} away</span>
+                      {distanceKm === 0 && alert.geometry.type !== 'Point' ? (
+                        <>
+                          <span>•</span>
+                          <Badge variant="destructive">{t('alerts.youAreInArea')}</Badge>
+                        </>
+                      ) : distanceKm !== null && (
+                        <>
+                          <span>•</span>
+                          <span>{t('alerts.away', { distance: formatDistance(distanceKm, language) })}</span>
+                        </>
+                      )}
                     </div>
-                    <Button variant="outline" size="sm">
-                      {t.viewOnMap}
+                    <Button variant="outline" size="sm" onClick={() => onViewOnMap(alert.id)}>
+                      {t('alerts.viewOnMap')}
                     </Button>
                   </div>
                 </CardContent>
@@ -208,27 +235,22 @@ const AlertSystem: React.FC<AlertSystemProps> = ({ currentLocation, selectedLang
         <CardHeader>
           <CardTitle className="flex items-center space-x-2 text-blue-800">
             <Volume2 className="w-5 h-5" />
-            <span>{t.safetyTips}</span>
+            <span>{t('alerts.safetyTips')}</span>
+            <ReadAloudButton
+              id="safety-tips"
+              parts={[t('alerts.safetyTips'), ...safetyTips]}
+              className="ml-auto text-blue-800 hover:text-blue-900 hover:bg-blue-100"
+            />
           </CardTitle>
         </CardHeader>
         <CardContent>
           <ul className="space-y-2 text-blue-700">
-            <li className="flex items-start space-x-2">
-              <span className="text-blue-500 mt-1">•</span>
-              <span>{t.tip1}</span>
-            </li>
-            <li className="flex items-start space-x-2">
-              <span className="text-blue-500 mt-1">•</span>
-              <span>{t.tip2}</span>
-            </li>
-            <li className="flex items-start space-x-2">
-              <span className="text-blue-500 mt-1">•</span>
-              <span>{t.tip3}</span>
-            </li>
-            <li className="flex items-start space-x-2">
-              <span className="text-blue-500 mt-1">•</span>
-              <span>{t.tip4}</span>
-            </li>
+            {safetyTips.map((tip) => (
+              <li key={tip} className="flex items-start space-x-2">
+                <span className="text-blue-500 mt-1">•</span>
+                <span>{tip}</span>
+              </li>
+            ))}
           </ul>
         </CardContent>
       </Card>
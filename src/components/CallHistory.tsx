@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { History, Phone, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import LocalityName from '@/components/LocalityName';
+import { useCallLog } from '@/hooks/use-call-log';
+import { useNow } from '@/hooks/use-now';
+import { useTranslation } from '@/hooks/use-translation';
+import { recordCall } from '@/lib/calls';
+import { formatRelativeTime } from '@/lib/datetime';
+import { formatCoordinates } from '@/lib/places';
+
+const COLLAPSED_COUNT = 5;
+
+/** Emergency calls started from this device, newest first, with where the user was at the time. */
+const CallHistory: React.FC = () => {
+  const { t, language } = useTranslation();
+  const calls = useCallLog();
+  const now = useNow();
+  const [expanded, setExpanded] = useState(false);
+
+  const handleCallAgain = (number: string, name: string) => {
+    recordCall(number, name);
+    window.open(`tel:${number}`, '_self');
+  };
+
+  const shown = expanded ? calls : calls.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>{t('callHistory.title')}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {calls.length === 0 && <p className="text-sm text-gray-500 italic">{t('callHistory.empty')}</p>}
+
+        {shown.map((call) => (
+          <div key={call.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {call.name} <span className="font-mono text-sm text-gray-600">{call.number}</span>
+              </p>
+              <p className="text-xs text-gray-500">{formatRelativeTime(call.calledAt, language, now)}</p>
+              {call.location && (
+                <p className="text-xs text-gray-500 flex items-center">
+                  <MapPin className="w-3 h-3 mr-1 flex-shrink-0" />
+                  <LocalityName coordinates={call.location} fallback={formatCoordinates(call.location)} />
+                </p>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t('callHistory.callAgain', { name: call.name })}
+              onClick={() => handleCallAgain(call.number, call.name)}
+            >
+              <Phone className="w-4 h-4 text-green-700" />
+            </Button>
+          </div>
+        ))}
+
+        {calls.length > COLLAPSED_COUNT && (
+          <Button variant="link" size="sm" className="w-full" onClick={() => setExpanded((value) => !value)}>
+            {expanded ? t('callHistory.showLess') : t('callHistory.showAll', { count: calls.length })}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallHistory;
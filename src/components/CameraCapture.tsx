@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Circle, Square, Video, CameraOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from '@/hooks/use-toast';
+import { useCamera } from '@/hooks/use-camera';
+import { useNow } from '@/hooks/use-now';
+import { useTranslation } from '@/hooks/use-translation';
+import type { MediaKind, PreparedMedia } from '@/hooks/use-media-attachments';
+import { openMicrophone, stopStream } from '@/lib/camera';
+import { captureFrame } from '@/lib/photos';
+import { MAX_VIDEO_SECONDS, formatDuration, isVideoRecordingSupported, recordClip, type ClipRecording } from '@/lib/video';
+
+interface CameraCaptureProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Returns false when the report already has as many photos or clips as it can take. */
+  onCapture: (media: PreparedMedia) => boolean;
+  canAdd: Record<MediaKind, boolean>;
+  /** Hands over to the phone's camera app when the in-app camera cannot be opened. */
+  onFallback: (kind: MediaKind) => void;
+}
+
+/**
+ * In-app camera for report evidence. Every photo and clip has its capture time stamped on
+ * it, and several can be taken without leaving the dialog.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ open, onOpenChange, onCapture, canAdd, onFallback }) => {
+  const { t } = useTranslation();
+  const { stream, error } = useCamera(open);
+  const preview = useRef<HTMLVideoElement>(null);
+  const recording = useRef<ClipRecording | null>(null);
+  const [mode, setMode] = useState<MediaKind>('photo');
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const now = useNow(500);
+  const videoSupported = isVideoRecordingSupported();
+
+  useEffect(() => {
+    if (preview.current) preview.current.srcObject = stream;
+  }, [stream]);
+
+  // Closing the dialog mid-recording still keeps the clip.
+  useEffect(() => {
+    if (!open) recording.current?.stop();
+  }, [open]);
+
+  const attach = (media: PreparedMedia) => {
+    if (!onCapture(media)) toast({ title: t('camera.limitReached'), variant: 'destructive' });
+  };
+
+  const takePhoto = async () => {
+    if (!preview.current) return;
+    setBusy(true);
+    try {
+      attach({ kind: 'photo', ...(await captureFrame(preview.current)) });
+      navigator.vibrate?.(50);
+    } catch (reason) {
+      console.error('Could not capture photo:', reason);
+      toast({ title: t('camera.captureFailed'), variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startRecording = async () => {
+    if (!preview.current) return;
+    setBusy(true);
+    const microphone = await openMicrophone();
+    try {
+      const clip = recordClip(preview.current, microphone?.getAudioTracks() ?? [], new Date());
+      recording.current = clip;
+      setRecordingSince(Date.now());
+      attach({ kind: 'video', ...(await clip.done) });
+    } catch (reason) {
+      console.error('Could not record clip:', reason);
+      toast({ title: t('camera.captureFailed'), variant: 'destructive' });
+    } finally {
+      stopStream(microphone);
+      recording.current = null;
+      setRecordingSince(null);
+      setBusy(false);
+    }
+  };
+
+  const isRecording = recordingSince !== null;
+  const elapsed = isRecording ? Math.min(MAX_VIDEO_SECONDS, Math.max(0, (now - recordingSince) / 1000)) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('camera.title')}</DialogTitle>
+          <DialogDescription>{t('camera.description')}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="space-y-3 text-center py-4">
+            <CameraOff className="w-10 h-10 text-gray-400 mx-auto" />
+            <p className="text-sm text-gray-600">{t(`camera.errors.${error}`)}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => onFallback('photo')}>
+                <Camera className="w-4 h-4 mr-2" />
+                {t('camera.usePhoneCamera')}
+              </Button>
+              {videoSupported && (
+                <Button variant="outline" onClick={() => onFallback('video')}>
+                  <Video className="w-4 h-4 mr-2" />
+                  {t('camera.usePhoneVideo')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {videoSupported && (
+              <Tabs value={mode} onValueChange={(value) => setMode(value as MediaKind)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="photo" disabled={isRecording}>
+                    {t('camera.photo')}
+                  </TabsTrigger>
+                  <TabsTrigger value="video" disabled={isRecording}>
+                    {t('camera.video')}
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+
+            <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+              <video ref={preview} autoPlay playsInline muted className="w-full h-full object-contain" />
+              {isRecording && (
+                <div className="absolute top-2 left-2 flex items-center rounded bg-black/60 px-2 py-1 text-xs text-white" role="timer">
+                  <span className="w-2 h-2 mr-2 rounded-full bg-red-500 animate-pulse" />
+                  {formatDuration(elapsed)} / {formatDuration(MAX_VIDEO_SECONDS)}
+                </div>
+              )}
+            </div>
+
+            {!canAdd[mode] && !isRecording && <p className="text-sm text-gray-600 text-center">{t('camera.limitReached')}</p>}
+
+            <div className="flex justify-center">
+              {mode === 'photo' ? (
+                <Button
+                  size="lg"
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  disabled={!stream || busy || !canAdd.photo}
+                  onClick={() => void takePhoto()}
+                >
+                  <Camera className="w-5 h-5 mr-2" />
+                  {t('camera.takePhoto')}
+                </Button>
+              ) : isRecording ? (
+                <Button size="lg" variant="outline" onClick={() => recording.current?.stop()}>
+                  <Square className="w-5 h-5 mr-2 fill-red-600 text-red-600" />
+                  {t('camera.stopRecording')}
+                </Button>
+              ) : (
+                <Button
+                  size="lg"
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  disabled={!stream || busy || !canAdd.video}
+                  onClick={() => void startRecording()}
+                >
+                  <Circle className="w-5 h-5 mr-2 fill-white" />
+                  {t('camera.startRecording', { seconds: MAX_VIDEO_SECONDS })}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CameraCapture;
@@ -1,99 +1,38 @@
 
 import React from 'react';
-import { Phone, MapPin, Ambulance, Shield, AlertTriangle } from 'lucide-react';
+import { Phone, MapPin, Ambulance, Shield, AlertTriangle, Building2, type LucideIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import SosPanel from '@/components/SosPanel';
+import TrustedContacts from '@/components/TrustedContacts';
 import { toast } from '@/hooks/use-toast';
+import { useEmergencyContacts } from '@/hooks/use-emergency-contacts';
+import { useTranslation } from '@/hooks/use-translation';
+import { recordCall } from '@/lib/calls';
+import { localizedText } from '@/lib/emergencyContacts';
 
-interface EmergencyContactsProps {
-  selectedLanguage: string;
-}
+const categoryStyles: Record<string, { icon: LucideIcon; color: string }> = {
+  disaster: { icon: AlertTriangle, color: 'bg-red-600 hover:bg-red-700' },
+  police: { icon: Shield, color: 'bg-blue-600 hover:bg-blue-700' },
+  fire: { icon: AlertTriangle, color: 'bg-orange-600 hover:bg-orange-700' },
+  ambulance: { icon: Ambulance, color: 'bg-green-600 hover:bg-green-700' },
+  flood: { icon: MapPin, color: 'bg-indigo-600 hover:bg-indigo-700' },
+  rescue: { icon: Phone, color: 'bg-purple-600 hover:bg-purple-700' },
+  municipal: { icon: Building2, color: 'bg-teal-600 hover:bg-teal-700' },
+};
 
-const EmergencyContacts: React.FC<EmergencyContactsProps> = ({ selectedLanguage }) => {
-  const translations = {
-    en: {
-      title: "Emergency Contacts",
-      subtitle: "Tap to call immediately",
-      ndma: "National Disaster Management",
-      police: "Police Emergency",
-      fire: "Fire Brigade",
-      ambulance: "Medical Emergency",
-      flood: "Flood Control Room",
-      rescue: "Search & Rescue",
-      calling: "Calling",
-      available: "Available 24/7"
-    },
-    hi: {
-      title: "आपातकालीन संपर्क",
-      subtitle: "तुरंत कॉल करने के लिए टैप करें",
-      ndma: "राष्ट्रीय आपदा प्रबंधन",
-      police: "पुलिस आपातकाल",
-      fire: "अग्निशमन",
-      ambulance: "चिकित्सा आपातकाल",
-      flood: "बाढ़ नियंत्रण कक्ष",
-      rescue: "खोज और बचाव",
-      calling: "कॉल कर रहे हैं",
-      available: "24/7 उपलब्ध"
-    }
-  };
+const defaultStyle = { icon: Phone, color: 'bg-gray-700 hover:bg-gray-800' };
 
-  const t = translations[selectedLanguage as keyof typeof translations];
-
-  const emergencyContacts = [
-    {
-      id: 'ndma',
-      name: t.ndma,
-      number: '1077',
-      icon: AlertTriangle,
-      color: 'bg-red-600 hover:bg-red-700',
-      description: 'NDMA Emergency Helpline'
-    },
-    {
-      id: 'police',
-      name: t.police,
-      number: '100',
-      icon: Shield,
-      color: 'bg-blue-600 hover:bg-blue-700',
-      description: 'Police Emergency Services'
-    },
-    {
-      id: 'fire',
-      name: t.fire,
-      number: '101',
-      icon: AlertTriangle,
-      color: 'bg-orange-600 hover:bg-orange-700',
-      description: 'Fire Brigade Emergency'
-    },
-    {
-      id: 'ambulance',
-      name: t.ambulance,
-      number: '108',
-      icon: Ambulance,
-      color: 'bg-green-600 hover:bg-green-700',
-      description: 'Medical Emergency Services'
-    },
-    {
-      id: 'flood',
-      name: t.flood,
-      number: '1070',
-      icon: MapPin,
-      color: 'bg-indigo-600 hover:bg-indigo-700',
-      description: 'Flood Emergency Control'
-    },
-    {
-      id: 'rescue',
-      name: t.rescue,
-      number: '1091',
-      icon: Phone,
-      color: 'bg-purple-600 hover:bg-purple-700',
-      description: 'Search and Rescue Operations'
-    }
-  ];
+const EmergencyContacts: React.FC = () => {
+  const { t, language } = useTranslation();
+  const { contacts, place } = useEmergencyContacts();
+  const hasLocalNumbers = contacts.some((contact) => contact.scope !== 'national');
 
   const handleEmergencyCall = (number: string, serviceName: string) => {
+    recordCall(number, serviceName);
     toast({
-      title: t.calling,
+      title: t('contacts.calling'),
       description: `${serviceName}: ${number}`,
       duration: 2000
     });
@@ -107,27 +46,43 @@ const EmergencyContacts: React.FC<EmergencyContactsProps> = ({ selectedLanguage
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t.title}</h2>
-        <p className="text-gray-600">{t.subtitle}</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('contacts.title')}</h2>
+        <p className="text-gray-600">{t('contacts.subtitle')}</p>
         <Badge variant="outline" className="mt-2 text-green-700 border-green-300">
-          {t.available}
+          {t('contacts.available')}
         </Badge>
+        <p className="text-xs text-gray-500 mt-2">
+          {hasLocalNumbers && place
+            ? t('contacts.showingFor', { place: [place.district, place.state].join(', ') })
+            : place
+              ? t('contacts.noLocalNumbers', { place: [place.district, place.state].filter(Boolean).join(', ') })
+              : t('contacts.nationalOnly')}
+        </p>
       </div>
 
+      <SosPanel />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {emergencyContacts.map((contact) => {
-          const IconComponent = contact.icon;
+        {contacts.map((contact) => {
+          const { icon: IconComponent, color } = categoryStyles[contact.category] ?? defaultStyle;
+          const name = localizedText(contact.name, language);
+          const description = contact.description && localizedText(contact.description, language);
           return (
-            <Card key={contact.id} className="hover:shadow-lg transition-shadow border-l-4 border-l-red-500">
+            <Card key={`${contact.scope}-${contact.id}`} className="hover:shadow-lg transition-shadow border-l-4 border-l-red-500">
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
-                    <div className={`p-2 rounded-full ${contact.color.split(' ')[0]} text-white`}>
+                    <div className={`p-2 rounded-full ${color.split(' ')[0]} text-white`}>
                       <IconComponent className="w-5 h-5" />
                     </div>
                     <div>
-                      <h3 className="font-semibold text-gray-900">{contact.name}</h3>
-                      <p className="text-sm text-gray-500">{contact.description}</p>
+                      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                        {name}
+                        {contact.scope !== 'national' && (
+                          <Badge className="bg-teal-100 text-teal-800 hover:bg-teal-100">{t('contacts.local')}</Badge>
+                        )}
+                      </h3>
+                      {description && <p className="text-sm text-gray-500">{description}</p>}
                     </div>
                   </div>
                   <Badge variant="secondary" className="font-mono text-lg">
@@ -137,12 +92,12 @@ const EmergencyContacts: React.FC<EmergencyContactsProps> = ({ selectedLanguage
               </CardHeader>
               <CardContent>
                 <Button
-                  onClick={() => handleEmergencyCall(contact.number, contact.name)}
-                  className={`w-full ${contact.color} text-white font-semibold py-3 flex items-center justify-center space-x-2`}
+                  onClick={() => handleEmergencyCall(contact.number, name)}
+                  className={`w-full ${color} text-white font-semibold py-3 flex items-center justify-center space-x-2`}
                   size="lg"
                 >
                   <Phone className="w-5 h-5" />
-                  <span>Call {contact.number}</span>
+                  <span>{t('contacts.call', { number: contact.number })}</span>
                 </Button>
               </CardContent>
             </Card>
@@ -155,15 +110,16 @@ const EmergencyContacts: React.FC<EmergencyContactsProps> = ({ selectedLanguage
           <div className="flex items-center space-x-3">
             <AlertTriangle className="w-8 h-8 text-red-600" />
             <div>
-              <h3 className="font-semibold text-red-800">Emergency Guidelines</h3>
+              <h3 className="font-semibold text-red-800">{t('contacts.guidelinesTitle')}</h3>
               <p className="text-red-700 text-sm mt-1">
-                Stay calm • Provide exact location • Follow operator instructions • 
-                Keep line clear for updates
+                {t('contacts.guidelines')}
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <TrustedContacts />
     </div>
   );
 };
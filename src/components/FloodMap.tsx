@@ -0,0 +1,222 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Circle, CircleMarker, GeoJSON, MapContainer, Polygon, Popup, TileLayer, Tooltip, useMap } from 'react-leaflet';
+import { circleMarker, type LatLngTuple, type Layer } from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
+import 'leaflet/dist/leaflet.css';
+import { CloudOff } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useReports } from '@/hooks/use-reports';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { alertCoordinates, localizeAlert } from '@/lib/alerts/types';
+import { DEFAULT_ZOOM, INDIA_BOUNDS, REPORT_MARKER_COLOR, USER_MARKER_COLOR, severityColors, tileLayerConfig } from '@/lib/map';
+import type { Coordinates, Geometry, LinearRing } from '@/lib/geo';
+import indiaBasemap from '@/data/india-basemap.json';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface FloodMapProps {
+  /** Alert to centre on and open, e.g. from a "View on Map" deep link. */
+  focusAlertId?: string | null;
+}
+
+const basemap = indiaBasemap as FeatureCollection;
+
+const basemapStyle = (feature?: Feature) =>
+  feature?.properties?.kind === 'country'
+    ? { color: '#64748b', weight: 1, fillColor: '#f1f5f9', fillOpacity: 1 }
+    : {};
+
+/** Bundled outline and major cities, drawn under the tiles so something useful remains when tiles cannot load. */
+const FallbackBasemap = () => (
+  <GeoJSON
+    data={basemap}
+    style={basemapStyle}
+    pointToLayer={(feature, latlng) =>
+      circleMarker(latlng, {
+        radius: 3,
+        color: '#334155',
+        weight: 1,
+        fillOpacity: 1,
+      }).bindTooltip(feature.properties?.name ?? '', { permanent: true, direction: 'right', className: 'text-xs' })
+    }
+  />
+);
+
+const toLatLngs = (ring: LinearRing) => ring.map(([lng, lat]): LatLngTuple => [lat, lng]);
+
+const polygonPositions = (geometry: Exclude<Geometry, { type: 'Point' }>) =>
+  geometry.type === 'Polygon'
+    ? geometry.coordinates.map(toLatLngs)
+    : geometry.coordinates.map((polygon) => polygon.map(toLatLngs));
+
+/** Re-centres only when the focus changes or a first fix arrives, not on every location update. */
+const FocusController: React.FC<{ target: Coordinates | null; fallback: Coordinates | null }> = ({ target, fallback }) => {
+  const map = useMap();
+  const latestFallback = useRef(fallback);
+  useLayoutEffect(() => {
+    latestFallback.current = fallback;
+  });
+  const targetLat = target?.lat;
+  const targetLng = target?.lng;
+  const hasFallback = fallback !== null;
+
+  useEffect(() => {
+    const fallbackPosition = latestFallback.current;
+    if (targetLat !== undefined && targetLng !== undefined) {
+      map.flyTo([targetLat, targetLng], DEFAULT_ZOOM);
+    } else if (hasFallback && fallbackPosition) {
+      map.setView([fallbackPosition.lat, fallbackPosition.lng], DEFAULT_ZOOM);
+    }
+  }, [map, targetLat, targetLng, hasFallback]);
+
+  return null;
+};
+
+const FloodMap: React.FC<FloodMapProps> = ({ focusAlertId = null }) => {
+  const { t, language } = useTranslation();
+  const { location: currentLocation } = useGeolocation();
+  const { data: alerts = [] } = useAlerts();
+  const { data: reports = [] } = useReports();
+  const [tilesUnavailable, setTilesUnavailable] = useState(false);
+  const alertLayers = useRef(new Map<string, Layer>());
+
+  const focusAlert = alerts.find((alert) => alert.id === focusAlertId) ?? null;
+  const focusTarget = focusAlert ? alertCoordinates(focusAlert) : null;
+
+  useEffect(() => {
+    if (focusAlertId) alertLayers.current.get(focusAlertId)?.openPopup();
+  }, [focusAlertId, alerts]);
+
+  return (
+    <div className="space-y-3">
+      {tilesUnavailable && (
+        <Card className="bg-yellow-50 border-yellow-200">
+          <CardContent className="p-3 flex items-center space-x-2 text-sm text-yellow-800">
+            <CloudOff className="w-4 h-4" />
+            <span>{t('map.offlineMap')}</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* `isolate` keeps Leaflet's high z-index panes below the sticky header. */}
+      <div className="isolate h-[60vh] min-h-[320px] rounded-xl overflow-hidden border shadow-lg bg-sky-100">
+        <MapContainer bounds={INDIA_BOUNDS} className="h-full w-full" scrollWheelZoom>
+          <FallbackBasemap />
+          <TileLayer
+            url={tileLayerConfig.url}
+            attribution={tileLayerConfig.attribution}
+            maxZoom={tileLayerConfig.maxZoom}
+            eventHandlers={{
+              tileerror: () => setTilesUnavailable(true),
+              tileload: () => setTilesUnavailable(false),
+            }}
+          />
+
+          {reports
+            .filter((report) => report.coordinates)
+            .map((report) => (
+              <CircleMarker
+                key={report.id}
+                center={[report.coordinates!.lat, report.coordinates!.lng]}
+                radius={6}
+                pathOptions={{ color: REPORT_MARKER_COLOR, fillOpacity: 0.6 }}
+              >
+                <Popup>
+                  <div className="font-semibold">{t('map.communityReport')}</div>
+                  <div className="text-xs font-mono">#{report.id}</div>
+                  {report.placeName && <div className="text-xs text-gray-500">{report.placeName}</div>}
+                  <div className="mt-1">{report.description}</div>
+                  {report.locationSource === 'manual' && (
+                    <div className="mt-1 text-xs text-gray-500">{t('map.manualLocation')}</div>
+                  )}
+                  {report.locationSource === 'photo' && (
+                    <div className="mt-1 text-xs text-gray-500">{t('map.photoLocation')}</div>
+                  )}
+                </Popup>
+              </CircleMarker>
+            ))}
+
+          {alerts.map((alert) => {
+            const text = localizeAlert(alert, language);
+            const focused = alert.id === focusAlertId;
+            const color = severityColors[alert.severity];
+            const registerLayer = (layer: Layer | null) => {
+              if (layer) alertLayers.current.set(alert.id, layer);
+              else alertLayers.current.delete(alert.id);
+            };
+            const popup = (
+              <Popup>
+                <div className="font-semibold">{text.title}</div>
+                <div className="text-xs text-gray-500">{text.areaName}</div>
+                <div className="mt-1">{text.description}</div>
+              </Popup>
+            );
+
+            if (alert.geometry.type === 'Point') {
+              const { lat, lng } = alertCoordinates(alert);
+              return (
+                <CircleMarker
+                  key={alert.id}
+                  ref={registerLayer}
+                  center={[lat, lng]}
+                  radius={focused ? 14 : 10}
+                  pathOptions={{ color, fillOpacity: 0.5 }}
+                >
+                  {popup}
+                </CircleMarker>
+              );
+            }
+
+            return (
+              <Polygon
+                key={alert.id}
+                ref={registerLayer}
+                positions={polygonPositions(alert.geometry)}
+                pathOptions={{ color, weight: focused ? 4 : 2, fillOpacity: focused ? 0.35 : 0.2 }}
+              >
+                {popup}
+              </Polygon>
+            );
+          })}
+
+          {currentLocation && (
+            <Circle
+              center={[currentLocation.lat, currentLocation.lng]}
+              radius={currentLocation.accuracy}
+              pathOptions={{ color: USER_MARKER_COLOR, weight: 1, fillOpacity: 0.1 }}
+              interactive={false}
+            />
+          )}
+          {currentLocation && (
+            <CircleMarker
+              center={[currentLocation.lat, currentLocation.lng]}
+              radius={8}
+              pathOptions={{ color: '#ffffff', weight: 3, fillColor: USER_MARKER_COLOR, fillOpacity: 1 }}
+            >
+              <Tooltip>{t('map.yourLocation')}</Tooltip>
+            </CircleMarker>
+          )}
+
+          <FocusController target={focusTarget} fallback={currentLocation} />
+        </MapContainer>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: USER_MARKER_COLOR }} />
+          <span>{t('map.yourLocation')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: severityColors.critical }} />
+          <span>{t('map.alerts')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: REPORT_MARKER_COLOR }} />
+          <span>{t('map.reports')}</span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default FloodMap;
@@ -1,150 +1,279 @@
 
-import React, { useState } from 'react';
-import { Camera, MapPin, Send, Upload, AlertTriangle, Home, Building } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Camera, MapPin, Send, Upload, AlertTriangle, Home, Building, ClipboardList, CloudOff, RotateCw, MapPinOff, MapPinned, LocateFixed, X, Loader2, ImageIcon, Video } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
+import { useSubmitReport } from '@/hooks/use-reports';
+import { useOutbox } from '@/hooks/use-outbox';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useMediaAttachments, type AddMediaOptions, type MediaAttachment, type MediaKind } from '@/hooks/use-media-attachments';
+import { formatDistance } from '@/lib/geo';
+import { formatPlaceName } from '@/lib/geocoding';
+import { formatCoordinates, type PickedPlace } from '@/lib/places';
+import { MAX_PHOTOS, formatFileSize } from '@/lib/photos';
+import { MAX_VIDEOS, MAX_VIDEO_SECONDS, formatDuration, isVideoRecordingSupported } from '@/lib/video';
+import { isCameraSupported } from '@/lib/camera';
+import { usePlaceName } from '@/hooks/use-place-name';
+import LocationPicker from '@/components/LocationPicker';
+import CameraCapture from '@/components/CameraCapture';
+import LocalityName from '@/components/LocalityName';
+import { reportOutbox, type OutboxStatus } from '@/lib/reports/outbox';
+import type { ReportSeverity, ReportType } from '@/lib/reports/types';
+import { useTranslation } from '@/hooks/use-translation';
 
-interface FloodReportingProps {
-  currentLocation: {lat: number, lng: number} | null;
-  selectedLanguage: string;
-}
-
-const FloodReporting: React.FC<FloodReportingProps> = ({ currentLocation, selectedLanguage }) => {
-  const [reportType, setReportType] = useState('');
-  const [severity, setSeverity] = useState('');
+const FloodReporting: React.FC = () => {
+  const { t, language } = useTranslation();
+  const { preferences } = usePreferences();
+  const { location, stale: locationStale } = useGeolocation();
+  // Coordinates only leave the device when the user allows location sharing.
+  const currentLocation = preferences.locationSharing ? location : null;
+  const [reportType, setReportType] = useState<ReportType | ''>('');
+  const [severity, setSeverity] = useState<ReportSeverity | ''>('');
   const [description, setDescription] = useState('');
-  const [images, setImages] = useState<File[]>([]);
-
-  const translations = {
-    en: {
-      title: "Report Flood Situation",
-      subtitle: "Help your community by reporting flood conditions",
-      reportType: "Report Type",
-      floodLevel: "Flood in Street/Road",
-      waterLogging: "Water Logging",
-      damageProperty: "Property Damage",
-      waterQuality: "Water Quality Issue",
-      emergencyRescue: "Emergency Rescue Needed",
-      severity: "Severity Level",
-      low: "Low - Minor inconvenience",
-      medium: "Medium - Moderate impact", 
-      high: "High - Serious concern",
-      critical: "Critical - Life threatening",
-      description: "Description",
-      descriptionPlaceholder: "Describe the situation in detail...",
-      addPhotos: "Add Photos",
-      submit: "Submit Report",
-      location: "Location",
-      submitting: "Submitting Report..."
-    },
-    hi: {
-      title: "बाढ़ की स्थिति की रिपोर्ट करें",
-      subtitle: "बाढ़ की स्थिति की रिपोर्ट करके अपने समुदाय की मदद करें",
-      reportType: "रिपोर्ट का प्रकार",
-      floodLevel: "सड़क/रास्ते में बाढ़",
-      waterLogging: "जल भराव",
-      damageProperty: "संपत्ति की क्षति",
-      waterQuality: "पानी की गुणवत्ता की समस्या",
-      emergencyRescue: "आपातकालीन बचाव की आवश्यकता",
-      severity: "गंभीरता का स्तर",
-      low: "कम - मामूली परेशानी",
-      medium: "मध्यम - मध्यम प्रभाव",
-      high: "उच्च - गंभीर चिंता",
-      critical: "गंभीर - जानलेवा",
-      description: "विवरण",
-      descriptionPlaceholder: "स्थिति का विस्तार से वर्णन करें...",
-      addPhotos: "फोटो जोड़ें",
-      submit: "रिपोर्ट भेजें",
-      location: "स्थान",
-      submitting: "रिपोर्ट भेज रहे हैं..."
-    }
-  };
+  const {
+    attachments,
+    processing: processingMedia,
+    canAdd,
+    add: addMedia,
+    attach: attachMedia,
+    remove: removeMedia,
+    clear: clearMedia,
+  } = useMediaAttachments();
+  const photos = attachments.flatMap((media) => (media.kind === 'photo' ? [media] : []));
+  const videos = attachments.flatMap((media) => (media.kind === 'video' ? [media] : []));
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const photoCaptureInput = useRef<HTMLInputElement>(null);
+  const videoCaptureInput = useRef<HTMLInputElement>(null);
+  const videoSupported = isVideoRecordingSupported();
+  const [manualPlace, setManualPlace] = useState<PickedPlace | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // A photo's GPS tags are the last resort: they say where the photo was taken, which may not be here.
+  const photoLocation = preferences.locationSharing ? photos.find((photo) => photo.coordinates)?.coordinates ?? null : null;
+  const reportLocation = manualPlace
+    ? { coordinates: { lat: manualPlace.lat, lng: manualPlace.lng }, locationSource: 'manual' as const }
+    : currentLocation
+      ? { coordinates: { lat: currentLocation.lat, lng: currentLocation.lng }, locationSource: 'gps' as const }
+      : photoLocation
+        ? { coordinates: photoLocation, locationSource: 'photo' as const }
+        : { coordinates: null, locationSource: null };
+  const { data: place } = usePlaceName(reportLocation.coordinates);
+  const submitReport = useSubmitReport();
+  const outboxEntries = useOutbox();
 
-  const t = translations[selectedLanguage as keyof typeof translations];
-
-  const reportTypes = [
-    { value: 'flood_level', label: t.floodLevel, icon: AlertTriangle },
-    { value: 'water_logging', label: t.waterLogging, icon: MapPin },
-    { value: 'property_damage', label: t.damageProperty, icon: Home },
-    { value: 'water_quality', label: t.waterQuality, icon: Building },
-    { value: 'emergency_rescue', label: t.emergencyRescue, icon: AlertTriangle }
+  const reportTypes: { value: ReportType; label: string; icon: typeof AlertTriangle }[] = [
+    { value: 'flood_level', label: t('report.types.flood_level'), icon: AlertTriangle },
+    { value: 'water_logging', label: t('report.types.water_logging'), icon: MapPin },
+    { value: 'property_damage', label: t('report.types.property_damage'), icon: Home },
+    { value: 'water_quality', label: t('report.types.water_quality'), icon: Building },
+    { value: 'emergency_rescue', label: t('report.types.emergency_rescue'), icon: AlertTriangle }
   ];
 
-  const severityLevels = [
-    { value: 'low', label: t.low, color: 'bg-green-100 text-green-800' },
-    { value: 'medium', label: t.medium, color: 'bg-yellow-100 text-yellow-800' },
-    { value: 'high', label: t.high, color: 'bg-orange-100 text-orange-800' },
-    { value: 'critical', label: t.critical, color: 'bg-red-100 text-red-800' }
+  const severityLevels: { value: ReportSeverity; label: string; color: string }[] = [
+    { value: 'low', label: t('report.severity.low'), color: 'bg-green-100 text-green-800' },
+    { value: 'medium', label: t('report.severity.medium'), color: 'bg-yellow-100 text-yellow-800' },
+    { value: 'high', label: t('report.severity.high'), color: 'bg-orange-100 text-orange-800' },
+    { value: 'critical', label: t('report.severity.critical'), color: 'bg-red-100 text-red-800' }
   ];
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const outboxStatusConfig: Record<OutboxStatus, { label: string; color: string }> = {
+    pending: { label: t('report.status.pending'), color: 'bg-yellow-100 text-yellow-800' },
+    sending: { label: t('report.status.sending'), color: 'bg-blue-100 text-blue-800' },
+    sent: { label: t('report.status.sent'), color: 'bg-green-100 text-green-800' },
+    failed: { label: t('report.status.failed'), color: 'bg-red-100 text-red-800' }
+  };
+
+  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>, options: AddMediaOptions = {}) => {
     const files = Array.from(e.target.files || []);
-    setImages(prevImages => [...prevImages, ...files]);
+    // Let the same file be picked again after it was removed.
+    e.target.value = '';
+    const { rejected } = await addMedia(files, options);
+    for (const { name, reason } of rejected) {
+      toast({
+        title: t('report.mediaRejected', { name }),
+        description: t(`report.mediaErrors.${reason}`, { photos: MAX_PHOTOS, videos: MAX_VIDEOS, seconds: MAX_VIDEO_SECONDS }),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const openCamera = () => {
+    if (isCameraSupported()) setCameraOpen(true);
+    else photoCaptureInput.current?.click();
   };
 
+  const openCameraApp = (kind: MediaKind) => {
+    setCameraOpen(false);
+    (kind === 'photo' ? photoCaptureInput : videoCaptureInput).current?.click();
+  };
+
+  /** "Photo 2", "Video clip 1": numbered within their kind, in the order they were added. */
+  const mediaNumber = (media: MediaAttachment) =>
+    attachments.filter((entry) => entry.kind === media.kind).indexOf(media) + 1;
+
   const handleSubmitReport = async () => {
     if (!reportType || !severity || !description.trim()) {
       toast({
-        title: "Missing Information",
-        description: "Please fill all required fields",
+        title: t('report.missingInfo'),
+        description: t('report.fillRequired'),
         variant: "destructive"
       });
       return;
     }
 
     toast({
-      title: t.submitting,
-      description: "Your report is being processed...",
+      title: t('report.submitting'),
+      description: t('report.processing'),
     });
 
-    // Simulate API call
-    setTimeout(() => {
-      toast({
-        title: "Report Submitted Successfully",
-        description: "Thank you for helping your community. Report ID: #FLD" + Math.random().toString(36).substr(2, 9).toUpperCase(),
+    try {
+      const entry = await submitReport.mutateAsync({
+        type: reportType,
+        severity,
+        description,
+        ...reportLocation,
+        placeName: reportLocation.coordinates && place ? formatPlaceName(place, t) : undefined,
+        photos: photos.map(({ file, takenAt }) => ({ file, takenAt })),
+        videos: videos.map(({ file, takenAt, duration }) => ({ file, takenAt, duration })),
       });
-      
+
+      if (entry.status === 'sent') {
+        toast({
+          title: t('report.submitSuccess'),
+          description: t('report.submitSuccessDescription', { id: entry.id }),
+        });
+      } else {
+        toast({
+          title: t('report.savedOffline'),
+          description: t('report.willSendWhenOnline', { id: entry.id }),
+        });
+      }
+
       // Reset form
       setReportType('');
       setSeverity('');
       setDescription('');
-      setImages([]);
-    }, 2000);
+      clearMedia();
+      setManualPlace(null);
+    } catch (error) {
+      console.error("Failed to save report:", error);
+      toast({
+        title: t('report.submitFailed'),
+        description: t('report.tryAgain'),
+        variant: "destructive"
+      });
+    }
   };
 
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t.title}</h2>
-        <p className="text-gray-600">{t.subtitle}</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('report.title')}</h2>
+        <p className="text-gray-600">{t('report.subtitle')}</p>
       </div>
 
-      {currentLocation && (
+      {manualPlace ? (
+        <Card className="bg-purple-50 border-purple-200">
+          <CardContent className="p-4 flex items-center space-x-3">
+            <MapPinned className="w-5 h-5 text-purple-600 flex-shrink-0" />
+            <div className="flex-1">
+              <span className="font-medium text-purple-800">{t('report.manualLocation')}: </span>
+              <span className="text-purple-700">{manualPlace.label}</span>
+              <LocalityName coordinates={manualPlace} className="block text-xs text-purple-600" />
+            </div>
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setPickerOpen(true)}>
+              {t('report.changeLocation')}
+            </Button>
+            {currentLocation && (
+              <Button variant="ghost" size="sm" onClick={() => setManualPlace(null)}>
+                <LocateFixed className="w-4 h-4 mr-1" />
+                {t('report.useGps')}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : currentLocation ? (
         <Card className="bg-blue-50 border-blue-200">
           <CardContent className="p-4 flex items-center space-x-3">
-            <MapPin className="w-5 h-5 text-blue-600" />
-            <div>
-              <span className="font-medium text-blue-800">{t.location}: </span>
-              <span className="text-blue-700">
-                {currentLocation.lat.toFixed(4)}, {currentLocation.lng.toFixed(4)}
+            <MapPin className="w-5 h-5 text-blue-600 flex-shrink-0" />
+            <div className="flex-1">
+              <span className="font-medium text-blue-800">{t('report.location')}: </span>
+              <LocalityName
+                coordinates={currentLocation}
+                fallback={formatCoordinates(currentLocation)}
+                className="text-blue-700"
+              />
+              <span className="text-xs text-blue-600 ml-1">
+                ({formatCoordinates(currentLocation)} ·{' '}
+                {t('location.accuracy', { distance: formatDistance(currentLocation.accuracy / 1000, language) })})
               </span>
+              {locationStale && <p className="text-xs text-yellow-800 mt-1">{t('location.stale')}</p>}
+            </div>
+            <Button variant="link" size="sm" className="text-blue-800" onClick={() => setPickerOpen(true)}>
+              {t('report.setLocation')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : reportLocation.locationSource === 'photo' ? (
+        <Card className="bg-amber-50 border-amber-200">
+          <CardContent className="p-4 flex items-center space-x-3">
+            <ImageIcon className="w-5 h-5 text-amber-600 flex-shrink-0" />
+            <div className="flex-1">
+              <span className="font-medium text-amber-800">{t('report.photoLocation')}: </span>
+              <LocalityName
+                coordinates={reportLocation.coordinates}
+                fallback={formatCoordinates(reportLocation.coordinates)}
+                className="text-amber-700"
+              />
+              <p className="text-xs text-amber-700 mt-1">{t('report.photoLocationHint')}</p>
             </div>
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setPickerOpen(true)}>
+              {t('report.changeLocation')}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="bg-gray-50 border-gray-200">
+          <CardContent className="p-4 flex items-center space-x-3">
+            <MapPinOff className="w-5 h-5 text-gray-500 flex-shrink-0" />
+            <span className="flex-1 text-sm text-gray-700">
+              {preferences.locationSharing ? t('report.noLocation') : t('report.locationSharingOff')}
+            </span>
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setPickerOpen(true)}>
+              <MapPinned className="w-4 h-4 mr-1" />
+              {t('report.setLocation')}
+            </Button>
           </CardContent>
         </Card>
       )}
 
+      <CameraCapture
+        open={cameraOpen}
+        onOpenChange={setCameraOpen}
+        onCapture={attachMedia}
+        canAdd={canAdd}
+        onFallback={openCameraApp}
+      />
+
+      <LocationPicker
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        onSelect={setManualPlace}
+        initialCenter={manualPlace ?? location}
+      />
+
       <Card>
         <CardHeader>
-          <CardTitle>{t.reportType}</CardTitle>
+          <CardTitle>{t('report.reportType')}</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Select value={reportType} onValueChange={setReportType}>
+          <Select value={reportType} onValueChange={(value) => setReportType(value as ReportType)}>
             <SelectTrigger>
-              <SelectValue placeholder="Select report type..." />
+              <SelectValue placeholder={t('report.selectType')} />
             </SelectTrigger>
             <SelectContent className="bg-white border shadow-lg z-50">
               {reportTypes.map((type) => (
@@ -162,7 +291,7 @@ const FloodReporting: React.FC<FloodReportingProps> = ({ currentLocation, select
 
       <Card>
         <CardHeader>
-          <CardTitle>{t.severity}</CardTitle>
+          <CardTitle>{t('report.severityLevel')}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 gap-3">
@@ -185,13 +314,13 @@ const FloodReporting: React.FC<FloodReportingProps> = ({ currentLocation, select
 
       <Card>
         <CardHeader>
-          <CardTitle>{t.description}</CardTitle>
+          <CardTitle>{t('report.description')}</CardTitle>
         </CardHeader>
         <CardContent>
           <Textarea
             value={description}
             onChange={(e) => setDescription(e.target.value)}
-            placeholder={t.descriptionPlaceholder}
+            placeholder={t('report.descriptionPlaceholder')}
             rows={4}
             className="resize-none"
           />
@@ -202,7 +331,7 @@ const FloodReporting: React.FC<FloodReportingProps> = ({ currentLocation, select
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Camera className="w-5 h-5" />
-            <span>{t.addPhotos}</span>
+            <span>{t('report.addPhotos')}</span>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -210,46 +339,164 @@ const FloodReporting: React.FC<FloodReportingProps> = ({ currentLocation, select
             <input
               type="file"
               multiple
-              accept="image/*"
-              onChange={handleImageUpload}
+              accept={videoSupported ? 'image/*,video/*' : 'image/*'}
+              onChange={(e) => void handleMediaUpload(e)}
+              disabled={!canAdd.photo && !canAdd.video}
               className="hidden"
               id="image-upload"
             />
-            <label htmlFor="image-upload">
-              <Button variant="outline" className="w-full cursor-pointer" asChild>
-                <div className="flex items-center justify-center space-x-2 py-8 border-2 border-dashed border-gray-300 hover:border-gray-400">
-                  <Upload className="w-6 h-6" />
-                  <span>Click to upload photos</span>
-                </div>
+            {/* The phone's own camera app, where the in-app camera cannot be opened. */}
+            <input
+              ref={photoCaptureInput}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={(e) => void handleMediaUpload(e, { watermark: true })}
+              className="hidden"
+            />
+            <input
+              ref={videoCaptureInput}
+              type="file"
+              accept="video/*"
+              capture="environment"
+              onChange={(e) => void handleMediaUpload(e, { watermark: true })}
+              className="hidden"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                variant="outline"
+                className="h-auto flex-col space-y-2 py-6 border-2 border-dashed border-gray-300 hover:border-gray-400"
+                disabled={!canAdd.photo && !canAdd.video}
+                onClick={openCamera}
+              >
+                <Camera className="w-6 h-6" />
+                <span>{t('report.useCamera')}</span>
               </Button>
-            </label>
-            
-            {images.length > 0 && (
+              <label htmlFor="image-upload">
+                <Button variant="outline" className="w-full h-full cursor-pointer" asChild>
+                  <div className="flex flex-col items-center justify-center space-y-2 py-6 border-2 border-dashed border-gray-300 hover:border-gray-400">
+                    <Upload className="w-6 h-6" />
+                    <span>{t('report.uploadPhotos')}</span>
+                  </div>
+                </Button>
+              </label>
+            </div>
+
+            {(attachments.length > 0 || processingMedia) && (
               <div className="grid grid-cols-3 gap-2">
-                {images.map((image, index) => (
-                  <div key={index} className="relative">
-                    <div className="aspect-square bg-gray-100 rounded border flex items-center justify-center">
-                      <Camera className="w-6 h-6 text-gray-400" />
+                {attachments.map((media) => (
+                  <div key={media.id} className="relative">
+                    {media.kind === 'photo' ? (
+                      <img
+                        src={media.previewUrl}
+                        alt={t('report.photoAlt', { number: mediaNumber(media) })}
+                        className="aspect-square w-full object-cover rounded border"
+                      />
+                    ) : (
+                      <video
+                        src={media.previewUrl}
+                        muted
+                        playsInline
+                        preload="metadata"
+                        aria-label={t('report.videoAlt', { number: mediaNumber(media) })}
+                        className="aspect-square w-full object-cover rounded border bg-black"
+                      />
+                    )}
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute top-1 right-1 h-6 w-6 rounded-full bg-white/90"
+                      aria-label={t(media.kind === 'photo' ? 'report.removePhoto' : 'report.removeVideo', { number: mediaNumber(media) })}
+                      onClick={() => removeMedia(media.id)}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                    <div className="absolute bottom-0 inset-x-0 px-1 py-0.5 bg-black/50 text-white text-[10px] rounded-b flex items-center justify-between">
+                      {media.kind === 'video' && (
+                        <span className="flex items-center">
+                          <Video className="w-3 h-3 mr-0.5" />
+                          {formatDuration(media.duration)}
+                        </span>
+                      )}
+                      <span>{formatFileSize(media.file.size, language)}</span>
+                      {media.kind === 'photo' && media.coordinates && (
+                        <MapPin className="w-3 h-3" aria-label={t('report.photoHasLocation')} />
+                      )}
                     </div>
-                    <Badge className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0 flex items-center justify-center text-xs">
-                      {index + 1}
-                    </Badge>
                   </div>
                 ))}
+                {processingMedia && (
+                  <div className="aspect-square bg-gray-100 rounded border flex flex-col items-center justify-center text-gray-500 text-xs">
+                    <Loader2 className="w-6 h-6 animate-spin mb-1" />
+                    {t('report.processingPhotos')}
+                  </div>
+                )}
               </div>
             )}
+            <p className="text-xs text-gray-500 flex items-center">
+              <ImageIcon className="w-3 h-3 mr-1 flex-shrink-0" />
+              {t('report.photoHint', { max: MAX_PHOTOS })}
+            </p>
+            {videoSupported && (
+              <p className="text-xs text-gray-500 flex items-center">
+                <Video className="w-3 h-3 mr-1 flex-shrink-0" />
+                {t('report.videoHint', { max: MAX_VIDEOS, seconds: MAX_VIDEO_SECONDS })}
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
 
       <Button 
         onClick={handleSubmitReport}
+        disabled={submitReport.isPending || processingMedia}
         className="w-full bg-red-600 hover:bg-red-700 text-white font-semibold py-4 text-lg"
         size="lg"
       >
         <Send className="w-5 h-5 mr-2" />
-        {t.submit}
+        {submitReport.isPending ? t('report.submitting') : t('report.submit')}
       </Button>
+
+      {outboxEntries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardList className="w-5 h-5" />
+              <span>{t('report.recentReports')}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {outboxEntries.slice(0, 5).map(({ report, ...entry }) => {
+              const type = reportTypes.find((item) => item.value === report.type);
+              const status = outboxStatusConfig[entry.status];
+              return (
+                <div key={report.id} className="flex items-center justify-between p-3 bg-gray-50 rounded border">
+                  <div>
+                    <div className="font-medium text-gray-900">{type?.label ?? report.type}</div>
+                    <div className="text-xs text-gray-500 font-mono">
+                      #{report.id} • {new Date(report.createdAt).toLocaleString()}
+                    </div>
+                    {entry.status === 'pending' && entry.nextAttemptAt && (
+                      <div className="text-xs text-gray-500 flex items-center mt-1">
+                        <CloudOff className="w-3 h-3 mr-1" />
+                        {t('report.nextRetry', { time: new Date(entry.nextAttemptAt).toLocaleTimeString() })}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge className={status.color}>{status.label}</Badge>
+                    {(entry.status === 'failed' || (entry.status === 'pending' && entry.attempts > 0)) && (
+                      <Button variant="ghost" size="sm" onClick={() => reportOutbox.retry(report.id)} title={t('report.retry')}>
+                        <RotateCw className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -2,37 +2,30 @@
 import React from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Globe } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { LANGUAGES, type Language } from '@/i18n';
 
 interface LanguageSelectorProps {
-  selectedLanguage: string;
-  onLanguageChange: (language: string) => void;
+  selectedLanguage: Language;
+  onLanguageChange: (language: Language) => void;
+  className?: string;
 }
 
 const LanguageSelector: React.FC<LanguageSelectorProps> = ({
   selectedLanguage,
-  onLanguageChange
+  onLanguageChange,
+  className
 }) => {
-  const languages = [
-    { code: 'en', name: 'English', native: 'English' },
-    { code: 'hi', name: 'Hindi', native: 'हिंदी' },
-    { code: 'ta', name: 'Tamil', native: 'தமிழ்' },
-    { code: 'te', name: 'Telugu', native: 'తెలుగు' },
-    { code: 'bn', name: 'Bengali', native: 'বাংলা' },
-    { code: 'mr', name: 'Marathi', native: 'मराठी' },
-    { code: 'gu', name: 'Gujarati', native: 'ગુજરાતી' },
-    { code: 'kn', name: 'Kannada', native: 'ಕನ್ನಡ' }
-  ];
-
   return (
-    <Select value={selectedLanguage} onValueChange={onLanguageChange}>
-      <SelectTrigger className="w-24 h-9">
+    <Select value={selectedLanguage} onValueChange={(value) => onLanguageChange(value as Language)}>
+      <SelectTrigger className={cn('w-24 h-9', className)}>
         <div className="flex items-center space-x-1">
           <Globe className="w-4 h-4" />
           <SelectValue />
         </div>
       </SelectTrigger>
       <SelectContent className="bg-white border shadow-lg z-50">
-        {languages.map((lang) => (
+        {LANGUAGES.map((lang) => (
           <SelectItem key={lang.code} value={lang.code} className="hover:bg-gray-100">
             <div className="flex flex-col">
               <span className="font-medium">{lang.native}</span>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { usePlaceName } from '@/hooks/use-place-name';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatPlaceName } from '@/lib/geocoding';
+import type { Coordinates } from '@/lib/geo';
+
+interface LocalityNameProps {
+  coordinates: Coordinates | null;
+  /** Shown until a name is known, and when none is. */
+  fallback?: React.ReactNode;
+  className?: string;
+}
+
+/** Locality, district and state for a point, e.g. "Kurla, Mumbai Suburban, Maharashtra". */
+const LocalityName: React.FC<LocalityNameProps> = ({ coordinates, fallback = null, className }) => {
+  const { t } = useTranslation();
+  const { data: place } = usePlaceName(coordinates);
+
+  if (!coordinates || !place) return <>{fallback}</>;
+  return <span className={className}>{formatPlaceName(place, t)}</span>;
+};
+
+export default LocalityName;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { CircleMarker, MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Clock, Loader2, MapPin, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePlaceSearch } from '@/hooks/use-place-search';
+import { useRecentPlaces } from '@/hooks/use-recent-places';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Coordinates } from '@/lib/geo';
+import { DEFAULT_ZOOM, INDIA_BOUNDS, REPORT_MARKER_COLOR, tileLayerConfig } from '@/lib/map';
+import { formatCoordinates, parseCoordinates, placeLabel, rememberPlace, type PickedPlace } from '@/lib/places';
+
+interface LocationPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (place: PickedPlace) => void;
+  /** Where the map starts, e.g. the last GPS fix or the previously picked place. */
+  initialCenter?: Coordinates | null;
+}
+
+/** Leaflet measures its container on mount, before the dialog has finished opening. */
+const SizeFix = () => {
+  const map = useMap();
+  useEffect(() => {
+    const timer = setTimeout(() => map.invalidateSize(), 250);
+    return () => clearTimeout(timer);
+  }, [map]);
+  return null;
+};
+
+const PinDropper: React.FC<{ onDrop: (position: Coordinates) => void }> = ({ onDrop }) => {
+  useMapEvents({
+    click: (event) => onDrop({ lat: event.latlng.lat, lng: event.latlng.lng }),
+  });
+  return null;
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ open, onOpenChange, onSelect, initialCenter = null }) => {
+  const { t } = useTranslation();
+  const recent = useRecentPlaces();
+  const [query, setQuery] = useState('');
+  const [pin, setPin] = useState<Coordinates | null>(null);
+
+  const typedCoordinates = parseCoordinates(query);
+  const { results, searching } = usePlaceSearch(query);
+
+  const choose = (place: PickedPlace) => {
+    rememberPlace(place);
+    onSelect(place);
+    onOpenChange(false);
+    setQuery('');
+    setPin(null);
+  };
+
+  const resultButton = (key: string, place: PickedPlace, icon: React.ReactNode) => (
+    <li key={key}>
+      <Button variant="ghost" className="w-full justify-start h-auto py-2 text-left whitespace-normal" onClick={() => choose(place)}>
+        {icon}
+        <span>{place.label}</span>
+      </Button>
+    </li>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('locationPicker.title')}</DialogTitle>
+          <DialogDescription>{t('locationPicker.description')}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="search">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="search">{t('locationPicker.searchTab')}</TabsTrigger>
+            <TabsTrigger value="map">{t('locationPicker.mapTab')}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="search" className="space-y-3">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <Input
+                className="pl-9"
+                placeholder={t('locationPicker.searchPlaceholder')}
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                autoFocus
+              />
+            </div>
+
+            {query.trim().length >= 2 ? (
+              typedCoordinates || results.length > 0 ? (
+                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                  {typedCoordinates &&
+                    resultButton(
+                      'coordinates',
+                      { label: formatCoordinates(typedCoordinates), ...typedCoordinates },
+                      <MapPin className="w-4 h-4 mr-2 flex-shrink-0" />
+                    )}
+                  {results.map((place) =>
+                    resultButton(
+                      placeLabel(place),
+                      { label: placeLabel(place), lat: place.lat, lng: place.lng },
+                      <MapPin className="w-4 h-4 mr-2 flex-shrink-0" />
+                    )
+                  )}
+                  {searching && (
+                    <li className="flex items-center px-4 py-2 text-sm text-gray-500">
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {t('locationPicker.searching')}
+                    </li>
+                  )}
+                </ul>
+              ) : searching ? (
+                <p className="flex items-center text-sm text-gray-500">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {t('locationPicker.searching')}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">{t('locationPicker.noResults')}</p>
+              )
+            ) : recent.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium text-gray-700">{t('locationPicker.recent')}</div>
+                <ul className="space-y-1">
+                  {recent.map((place) =>
+                    resultButton(
+                      `${place.label}-${formatCoordinates(place)}`,
+                      place,
+                      <Clock className="w-4 h-4 mr-2 flex-shrink-0 text-gray-500" />
+                    )
+                  )}
+                </ul>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="map" className="space-y-3">
+            <p className="text-sm text-gray-600">{t('locationPicker.mapHint')}</p>
+            <div className="isolate h-72 rounded-lg overflow-hidden border bg-sky-100">
+              <MapContainer
+                {...(initialCenter
+                  ? { center: [initialCenter.lat, initialCenter.lng], zoom: DEFAULT_ZOOM }
+                  : { bounds: INDIA_BOUNDS })}
+                className="h-full w-full"
+              >
+                <TileLayer url={tileLayerConfig.url} attribution={tileLayerConfig.attribution} maxZoom={tileLayerConfig.maxZoom} />
+                <SizeFix />
+                <PinDropper onDrop={setPin} />
+                {pin && (
+                  <CircleMarker
+                    center={[pin.lat, pin.lng]}
+                    radius={9}
+                    pathOptions={{ color: '#ffffff', weight: 3, fillColor: REPORT_MARKER_COLOR, fillOpacity: 1 }}
+                  />
+                )}
+              </MapContainer>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-700 font-mono">{pin ? formatCoordinates(pin) : ''}</span>
+              <Button disabled={!pin} onClick={() => pin && choose({ label: formatCoordinates(pin), ...pin })}>
+                {t('locationPicker.usePin')}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useNotificationPermission } from '@/hooks/use-notification-permission';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useTranslation } from '@/hooks/use-translation';
+import { requestNotificationPermission } from '@/lib/notifications';
+
+/**
+ * Asks for notification permission while a notification preference is on but the browser has
+ * not been asked yet, which is where every new user starts. Browsers only show their prompt in
+ * response to a tap, so this cannot happen on load.
+ */
+const NotificationPrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const { preferences } = usePreferences();
+  const permission = useNotificationPermission();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed || permission !== 'default' || !(preferences.notifications || preferences.emergencyAlerts)) return null;
+
+  const handleEnable = () => {
+    requestNotificationPermission().catch((error) => console.warn('Notification permission request failed:', error));
+  };
+
+  return (
+    <div className="bg-blue-50 border-l-4 border-blue-500 p-3 mx-4 mt-4 rounded flex items-center flex-wrap gap-2 text-blue-900">
+      <Bell className="w-5 h-5 flex-shrink-0" />
+      <span className="text-sm flex-1">{t('app.notificationsPrompt')}</span>
+      <Button variant="ghost" size="sm" className="h-7" onClick={() => setDismissed(true)}>
+        {t('app.notNow')}
+      </Button>
+      <Button size="sm" className="h-7" onClick={handleEnable}>
+        {t('app.enableNotifications')}
+      </Button>
+    </div>
+  );
+};
+
+export default NotificationPrompt;
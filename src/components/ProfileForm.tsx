@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  createProfileFormSchema,
+  formatIndianPhone,
+  saveProfile,
+  type ProfileFormValues,
+  type UserProfile,
+} from '@/lib/profile';
+
+interface ProfileFormProps {
+  profile: UserProfile;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSaved, onCancel }) => {
+  const { t } = useTranslation();
+  const schema = useMemo(() => createProfileFormSchema(t), [t]);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      name: profile.name,
+      phone: profile.phone ? formatIndianPhone(profile.phone) : '',
+      homeArea: profile.homeArea,
+    },
+  });
+
+  const handleSubmit = (values: ProfileFormValues) => {
+    saveProfile(values);
+    onSaved();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" noValidate>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('profile.name')}</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" placeholder={t('profile.namePlaceholder')} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('profile.phone')}</FormLabel>
+              <FormControl>
+                <Input type="tel" inputMode="tel" autoComplete="tel" placeholder={t('profile.phonePlaceholder')} {...field} />
+              </FormControl>
+              <FormDescription>{t('profile.phoneHint')}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="homeArea"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('profile.homeArea')}</FormLabel>
+              <FormControl>
+                <Input autoComplete="address-level2" placeholder={t('profile.homeAreaPlaceholder')} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            {t('profile.cancel')}
+          </Button>
+          <Button type="submit">{t('profile.save')}</Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProfileForm;
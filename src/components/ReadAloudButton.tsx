@@ -0,0 +1,51 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useSpeech } from '@/hooks/use-speech';
+import { useTranslation } from '@/hooks/use-translation';
+import { hasVoiceFor } from '@/lib/speech';
+import { cn } from '@/lib/utils';
+
+interface ReadAloudButtonProps {
+  /** Identifies this readout, so only the button that started it shows as playing. */
+  id: string;
+  /** Read in order, in the selected language. */
+  parts: string[];
+  className?: string;
+}
+
+const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ id, parts, className }) => {
+  const { t, language } = useTranslation();
+  const { supported, speakingId, speak, stop } = useSpeech();
+
+  if (!supported) return null;
+
+  const speaking = speakingId === id;
+  const label = speaking ? t('speech.stop') : t('speech.readAloud');
+
+  const handleClick = () => {
+    if (speaking) {
+      stop();
+      return;
+    }
+    if (!hasVoiceFor(language)) {
+      toast({ title: t('speech.noVoice'), description: t('speech.noVoiceDescription') });
+    }
+    void speak(id, parts, language);
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn(speaking && 'text-blue-700 bg-blue-100', className)}
+      onClick={handleClick}
+    >
+      {speaking ? <VolumeX className="w-4 h-4 mr-1" /> : <Volume2 className="w-4 h-4 mr-1" />}
+      {label}
+    </Button>
+  );
+};
+
+export default ReadAloudButton;
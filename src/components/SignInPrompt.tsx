@@ -0,0 +1,43 @@
+import React from 'react';
+import { Link, useLocation, type Location } from 'react-router-dom';
+import { LogIn, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTranslation } from '@/hooks/use-translation';
+
+export interface LoginLocationState {
+  /** Where to send the user once they have signed in. */
+  from?: Location;
+}
+
+/**
+ * Stands in for account-only sections while signed out and links to `/login`, which returns here
+ * afterwards. Emergency features and local settings must never sit behind this.
+ */
+const SignInPrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const location = useLocation();
+  const state: LoginLocationState = { from: location };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <User className="w-5 h-5" />
+          <span>{t('profile.personalInfo')}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">{t('profile.signInPrompt')}</p>
+        <Button asChild className="w-full">
+          <Link to="/login" state={state}>
+            <LogIn className="w-4 h-4 mr-2" />
+            {t('auth.title')}
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignInPrompt;
@@ -0,0 +1,54 @@
+import React, { useEffect } from 'react';
+import { Siren, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useSos } from '@/hooks/use-sos';
+import { useTranslation } from '@/hooks/use-translation';
+
+interface SosBannerProps {
+  /** Hidden on the Emergency tab, which shows the full SOS panel instead. */
+  hidden: boolean;
+  onOpen: () => void;
+}
+
+/** Keeps an active SOS in view from every tab, and buzzes when a location update is due. */
+const SosBanner: React.FC<SosBannerProps> = ({ hidden, onOpen }) => {
+  const { t } = useTranslation();
+  const { active, updateDue, send } = useSos();
+
+  useEffect(() => {
+    if (updateDue) navigator.vibrate?.([300, 150, 300]);
+  }, [updateDue]);
+
+  if (!active || hidden) return null;
+
+  const handleSendUpdate = async () => {
+    try {
+      await send('update');
+    } catch (error) {
+      console.error('Could not send SOS update:', error);
+      toast({ title: t('sos.failed'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div role="status" className="bg-red-700 text-white p-3 mx-4 mt-4 rounded-lg shadow-lg flex items-center gap-3">
+      <Siren className="w-6 h-6 flex-shrink-0 animate-pulse" />
+      <button type="button" className="flex-1 text-left" onClick={onOpen}>
+        <p className="font-bold">{t('sos.active')}</p>
+        {updateDue && <p className="text-sm text-red-100">{t('sos.updateDue')}</p>}
+      </button>
+      <Button
+        size="sm"
+        variant="secondary"
+        className="bg-white text-red-700 hover:bg-red-50"
+        onClick={() => void handleSendUpdate()}
+      >
+        <Send className="w-4 h-4 mr-1" />
+        {t('sos.sendUpdate')}
+      </Button>
+    </div>
+  );
+};
+
+export default SosBanner;
@@ -0,0 +1,199 @@
+import React, { useRef, useState } from 'react';
+import { Siren, Send, Share2, ShieldCheck, X, History, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { useSos } from '@/hooks/use-sos';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatRelativeTime } from '@/lib/datetime';
+import type { Coordinates } from '@/lib/geo';
+import { SOS_HOLD_MS, mapLink, type SosChannel, type SosMessage, type SosMessageKind } from '@/lib/sos';
+
+const HISTORY_SHOWN = 5;
+
+/**
+ * Press-and-hold SOS. Holding arms it and releasing sends, because browsers only let a
+ * page open the SMS app or share sheet from the release of a touch, not from a timer.
+ */
+const SosPanel: React.FC = () => {
+  const { t, language } = useTranslation();
+  const { active, events, contacts, nextUpdateAt, updateDue, now, send, cancel } = useSos();
+  const [holding, setHolding] = useState(false);
+  const [armed, setArmed] = useState(false);
+  const holdTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const handleSend = async (kind: SosMessageKind, channel?: SosChannel) => {
+    try {
+      const sent = await send(kind, channel);
+      if (sent && kind === 'start') toast({ title: t('sos.started'), description: t('sos.startedDescription') });
+      if (sent && kind === 'end') toast({ title: t('sos.ended') });
+    } catch (error) {
+      console.error('Could not send SOS:', error);
+      toast({ title: t('sos.failed'), variant: 'destructive' });
+    }
+  };
+
+  const beginHold = () => {
+    setHolding(true);
+    holdTimer.current = setTimeout(() => {
+      setArmed(true);
+      navigator.vibrate?.(200);
+    }, SOS_HOLD_MS);
+  };
+
+  const endHold = (release: boolean) => {
+    clearTimeout(holdTimer.current);
+    setHolding(false);
+    setArmed(false);
+    if (armed && release) void handleSend('start');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.key === 'Enter' || event.key === ' ') && !event.repeat) {
+      event.preventDefault();
+      beginHold();
+    }
+  };
+
+  const handleKeyUp = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' || event.key === ' ') endHold(true);
+  };
+
+  const handleCancel = () => {
+    cancel();
+    toast({ title: t('sos.cancelled') });
+  };
+
+  const past = events.filter((event) => event !== active).slice(0, HISTORY_SHOWN);
+  const canShare = typeof navigator !== 'undefined' && !!navigator.share;
+
+  return (
+    <div className="space-y-4">
+      {active ? (
+        <Card className="border-2 border-red-500 bg-red-50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center justify-between text-red-800">
+              <span className="flex items-center">
+                <Siren className="w-6 h-6 mr-2 animate-pulse" />
+                {t('sos.active')}
+              </span>
+              <Badge variant="destructive">
+                {t('sos.messagesSent', { count: active.messages.length })}
+              </Badge>
+            </CardTitle>
+            <p className="text-sm text-red-700">
+              {t('sos.since', { time: formatRelativeTime(active.startedAt, language, now) })}
+              {' · '}
+              {updateDue || nextUpdateAt === null
+                ? t('sos.updateDue')
+                : t('sos.nextUpdate', { time: formatRelativeTime(nextUpdateAt, language, now) })}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Button
+              size="lg"
+              className={`w-full bg-red-600 hover:bg-red-700 text-white ${updateDue ? 'animate-pulse' : ''}`}
+              onClick={() => void handleSend('update')}
+            >
+              <Send className="w-5 h-5 mr-2" />
+              {t('sos.sendUpdate')}
+            </Button>
+            {canShare && contacts.length > 0 && (
+              <Button variant="outline" className="w-full bg-white" onClick={() => void handleSend('update', 'share')}>
+                <Share2 className="w-4 h-4 mr-2" />
+                {t('sos.shareInstead')}
+              </Button>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                className="bg-white text-green-700 border-green-300"
+                onClick={() => void handleSend('end')}
+              >
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                {t('sos.imSafe')}
+              </Button>
+              <Button variant="ghost" className="text-gray-600" onClick={handleCancel}>
+                <X className="w-4 h-4 mr-2" />
+                {t('sos.cancel')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-red-200">
+          <CardContent className="p-6 flex flex-col items-center text-center space-y-3">
+            <button
+              type="button"
+              aria-label={t('sos.holdToSend')}
+              className="relative w-36 h-36 rounded-full bg-red-600 text-white shadow-xl overflow-hidden select-none touch-none focus:outline-none focus-visible:ring-4 focus-visible:ring-red-300"
+              onPointerDown={beginHold}
+              onPointerUp={() => endHold(true)}
+              onPointerLeave={() => endHold(false)}
+              onPointerCancel={() => endHold(false)}
+              onKeyDown={handleKeyDown}
+              onKeyUp={handleKeyUp}
+              onContextMenu={(event) => event.preventDefault()}
+            >
+              <span
+                className="absolute inset-x-0 bottom-0 bg-red-800"
+                style={{
+                  height: holding ? '100%' : '0%',
+                  transition: holding ? `height ${SOS_HOLD_MS}ms linear` : 'none',
+                }}
+              />
+              <span className="relative flex flex-col items-center">
+                <Siren className="w-10 h-10 mb-1" />
+                <span className="text-2xl font-extrabold tracking-wider">SOS</span>
+              </span>
+            </button>
+            <p className="font-semibold text-red-800">{armed ? t('sos.releaseToSend') : t('sos.holdToSend')}</p>
+            <p className="text-sm text-gray-600">
+              {contacts.length > 0 ? t('sos.willSendTo', { count: contacts.length }) : t('sos.noContacts')}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {past.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center text-base">
+              <History className="w-4 h-4 mr-2 text-gray-600" />
+              {t('sos.history')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {past.map((event) => {
+              const located = [...event.messages]
+                .reverse()
+                .find((message): message is SosMessage & Coordinates => message.lat !== null && message.lng !== null);
+              return (
+                <div key={event.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                  <div>
+                    <p className="text-gray-900">{new Date(event.startedAt).toLocaleString(`${language}-IN`)}</p>
+                    <p className="text-gray-500">{t('sos.messagesSent', { count: event.messages.length })}</p>
+                  </div>
+                  {located && (
+                    <a
+                      href={mapLink({ lat: located.lat, lng: located.lng })}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center text-blue-700 hover:underline"
+                    >
+                      <MapPin className="w-4 h-4 mr-1" />
+                      {t('sos.lastLocation')}
+                    </a>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default SosPanel;
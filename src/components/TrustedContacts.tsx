@@ -0,0 +1,316 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Users, UserPlus, Trash2, Pencil, Phone, MessageSquare, Contact, Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { useTrustedContacts } from '@/hooks/use-trusted-contacts';
+import { formatIndianPhone } from '@/lib/profile';
+import {
+  MAX_TRUSTED_CONTACTS,
+  PRIORITIES,
+  RELATIONSHIPS,
+  TrustedContactsImportError,
+  addTrustedContact,
+  createTrustedContactFormSchema,
+  exportTrustedContacts,
+  importTrustedContacts,
+  isContactPickerSupported,
+  pickTrustedContacts,
+  removeTrustedContact,
+  updateTrustedContact,
+  type MergeResult,
+  type Priority,
+  type TrustedContact,
+  type TrustedContactFormValues,
+} from '@/lib/trustedContacts';
+
+const priorityStyles: Record<number, string> = {
+  1: 'bg-red-100 text-red-800 hover:bg-red-100',
+  2: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+  3: 'bg-gray-100 text-gray-700 hover:bg-gray-100',
+};
+
+const EMPTY_FORM: TrustedContactFormValues = { name: '', phone: '', relationship: 'family', priority: '1' };
+
+/**
+ * The family's own emergency contacts, next to the official numbers: relatives,
+ * neighbours, the society secretary. They can be called or texted from here and are the
+ * recipients of an SOS.
+ */
+const TrustedContacts: React.FC = () => {
+  const { t } = useTranslation();
+  const contacts = useTrustedContacts();
+  // null: form closed; 'new': adding; otherwise the ID being edited.
+  const [editing, setEditing] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const schema = useMemo(
+    () => createTrustedContactFormSchema(t, contacts, editing ?? undefined),
+    [t, contacts, editing]
+  );
+
+  const form = useForm<TrustedContactFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const openForm = (contact?: TrustedContact) => {
+    form.reset(
+      contact
+        ? {
+            name: contact.name,
+            phone: formatIndianPhone(contact.phone),
+            relationship: contact.relationship,
+            priority: String(contact.priority) as TrustedContactFormValues['priority'],
+          }
+        : EMPTY_FORM
+    );
+    setEditing(contact?.id ?? 'new');
+  };
+
+  const handleSubmit = (values: TrustedContactFormValues) => {
+    if (editing === 'new' && !addTrustedContact(values)) {
+      toast({ title: t('trustedContacts.errors.full', { max: MAX_TRUSTED_CONTACTS }), variant: 'destructive' });
+    } else if (editing && editing !== 'new') {
+      updateTrustedContact(editing, values);
+    }
+    setEditing(null);
+  };
+
+  // Not recorded in the call log, which counts calls to emergency services.
+  const handleCall = (contact: TrustedContact) => {
+    window.open(`tel:${contact.phone}`, '_self');
+  };
+
+  const reportMerge = ({ added, skipped }: MergeResult) => {
+    toast({
+      title: t('trustedContacts.imported', { count: added }),
+      description: skipped > 0 ? t('trustedContacts.skipped', { count: skipped }) : undefined,
+    });
+  };
+
+  const handlePick = async () => {
+    try {
+      reportMerge(await pickTrustedContacts());
+    } catch (error) {
+      // Closing the picker without choosing anyone rejects too; only report real failures.
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Contact picker failed:', error);
+      toast({ title: t('trustedContacts.errors.pickFailed'), variant: 'destructive' });
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportTrustedContacts());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'trusted-contacts.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      reportMerge(await importTrustedContacts(file));
+    } catch (error) {
+      // Reading the file itself can fail too, e.g. when it was removed after being picked.
+      if (!(error instanceof TrustedContactsImportError)) console.error('Could not import trusted contacts:', error);
+      toast({ title: t('trustedContacts.errors.invalidBackup'), variant: 'destructive' });
+    }
+  };
+
+  const full = contacts.length >= MAX_TRUSTED_CONTACTS;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <Users className="w-5 h-5 mr-2 text-red-600" />
+          {t('trustedContacts.title')}
+        </CardTitle>
+        <p className="text-sm text-gray-600">{t('trustedContacts.description')}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contacts.length === 0 && !editing && <p className="text-sm text-gray-500 italic">{t('trustedContacts.empty')}</p>}
+
+        {contacts.map((contact) => (
+          <div key={contact.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{contact.name}</p>
+                <p className="text-sm text-gray-600 font-mono">{formatIndianPhone(contact.phone)}</p>
+                <div className="flex gap-1 mt-1">
+                  <Badge variant="outline">{t(`trustedContacts.relationships.${contact.relationship}`)}</Badge>
+                  <Badge className={priorityStyles[contact.priority]}>
+                    {t(`trustedContacts.priorities.${contact.priority as Priority}`)}
+                  </Badge>
+                </div>
+              </div>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('trustedContacts.edit', { name: contact.name })}
+                  onClick={() => openForm(contact)}
+                >
+                  <Pencil className="w-4 h-4 text-gray-500" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={t('trustedContacts.remove', { name: contact.name })}
+                  onClick={() => removeTrustedContact(contact.id)}
+                >
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" onClick={() => handleCall(contact)}>
+                <Phone className="w-4 h-4 mr-1" />
+                {t('trustedContacts.call')}
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={`sms:${contact.phone}`}>
+                  <MessageSquare className="w-4 h-4 mr-1" />
+                  {t('trustedContacts.sms')}
+                </a>
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {editing ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-3" noValidate>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('profile.name')}</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('profile.phone')}</FormLabel>
+                    <FormControl>
+                      <Input type="tel" inputMode="tel" autoComplete="off" placeholder={t('profile.phonePlaceholder')} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="relationship"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('trustedContacts.relationship')}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RELATIONSHIPS.map((relationship) => (
+                            <SelectItem key={relationship} value={relationship}>
+                              {t(`trustedContacts.relationships.${relationship}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('trustedContacts.priority')}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PRIORITIES.map((priority) => (
+                            <SelectItem key={priority} value={String(priority)}>
+                              {t(`trustedContacts.priorities.${priority}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  {t('profile.cancel')}
+                </Button>
+                <Button type="submit">{editing === 'new' ? t('trustedContacts.add') : t('profile.save')}</Button>
+              </div>
+            </form>
+          </Form>
+        ) : (
+          !full && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => openForm()}>
+                <UserPlus className="w-4 h-4 mr-2" />
+                {t('trustedContacts.add')}
+              </Button>
+              {isContactPickerSupported() && (
+                <Button variant="outline" onClick={() => void handlePick()}>
+                  <Contact className="w-4 h-4 mr-2" />
+                  {t('trustedContacts.pickFromPhone')}
+                </Button>
+              )}
+            </div>
+          )
+        )}
+
+        <div className="flex justify-end gap-2 pt-1">
+          <Button variant="ghost" size="sm" disabled={contacts.length === 0} onClick={handleExport}>
+            <Download className="w-4 h-4 mr-1" />
+            {t('trustedContacts.export')}
+          </Button>
+          <Button variant="ghost" size="sm" disabled={full} onClick={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            {t('trustedContacts.import')}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => void handleImport(event)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrustedContacts;
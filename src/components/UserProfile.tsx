@@ -1,82 +1,68 @@
 
 import React, { useState } from 'react';
-import { User, MapPin, Phone, Settings, Bell, Globe, Shield, Info } from 'lucide-react';
+import { User, MapPin, Phone, Settings, Bell, Globe, Shield, Info, Pencil, LogOut, Volume2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
+import { useTranslation } from '@/hooks/use-translation';
+import LanguageSelector from '@/components/LanguageSelector';
+import ProfileForm from '@/components/ProfileForm';
+import CallHistory from '@/components/CallHistory';
+import SignInPrompt from '@/components/SignInPrompt';
+import { toast } from '@/hooks/use-toast';
+import { useProfile } from '@/hooks/use-profile';
+import { useUserStats } from '@/hooks/use-user-stats';
+import { useSession, useSignOut } from '@/hooks/use-auth';
+import { useNotificationPermission } from '@/hooks/use-notification-permission';
+import { usePreferences } from '@/hooks/use-preferences';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ALERT_SEVERITIES, type AlertSeverity } from '@/lib/alerts/types';
+import { requestNotificationPermission } from '@/lib/notifications';
+import { formatIndianPhone, isProfileComplete } from '@/lib/profile';
 
-interface UserProfileProps {
-  selectedLanguage: string;
-}
-
-const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
-  const [notifications, setNotifications] = useState(true);
-  const [locationSharing, setLocationSharing] = useState(true);
-  const [emergencyAlerts, setEmergencyAlerts] = useState(true);
-
-  const translations = {
-    en: {
-      title: "Profile",
-      personalInfo: "Personal Information",
-      name: "Full Name",
-      phone: "Phone Number",
-      location: "Current Location",
-      preferences: "Preferences",
-      notifications: "Push Notifications",
-      locationSharing: "Share Location",
-      emergencyAlerts: "Emergency Alerts",
-      language: "Language",
-      about: "About App",
-      version: "Version 1.0.0",
-      developer: "Developed for Indian Citizens",
-      privacy: "Privacy Policy",
-      terms: "Terms of Service",
-      help: "Help & Support",
-      logout: "Logout",
-      settings: "Settings",
-      reportsSubmitted: "Reports Submitted",
-      alertsReceived: "Alerts Received",
-      emergencyCalls: "Emergency Calls"
-    },
-    hi: {
-      title: "प्रोफ़ाइल",
-      personalInfo: "व्यक्तिगत जानकारी",
-      name: "पूरा नाम",
-      phone: "फोन नंबर",
-      location: "वर्तमान स्थान",
-      preferences: "प्राथमिकताएं",
-      notifications: "पुश नोटिफिकेशन",
-      locationSharing: "स्थान साझा करें",
-      emergencyAlerts: "आपातकालीन अलर्ट",
-      language: "भाषा",
-      about: "ऐप के बारे में",
-      version: "संस्करण 1.0.0",
-      developer: "भारतीय नागरिकों के लिए विकसित",
-      privacy: "गोपनीयता नीति",
-      terms: "सेवा की शर्तें",
-      help: "सहायता और समर्थन",
-      logout: "लॉगआउट",
-      settings: "सेटिंग्स",
-      reportsSubmitted: "सबमिट की गई रिपोर्ट",
-      alertsReceived: "प्राप्त अलर्ट",
-      emergencyCalls: "आपातकालीन कॉल"
-    }
-  };
+const UserProfile: React.FC = () => {
+  const { t, language, setLanguage } = useTranslation();
+  const { preferences, setPreference } = usePreferences();
 
-  const t = translations[selectedLanguage as keyof typeof translations];
+  const profile = useProfile();
+  const stats = useUserStats();
+  const [editing, setEditing] = useState(false);
+  const notSet = <span className="text-gray-400 italic">{t('profile.notSet')}</span>;
 
   const userStats = [
-    { label: t.reportsSubmitted, value: '3', icon: User, color: 'text-blue-600' },
-    { label: t.alertsReceived, value: '12', icon: Bell, color: 'text-orange-600' },
-    { label: t.emergencyCalls, value: '0', icon: Phone, color: 'text-green-600' }
+    { label: t('profile.reportsSubmitted'), value: stats.reportsSubmitted, icon: User, color: 'text-blue-600' },
+    { label: t('profile.alertsReceived'), value: stats.alertsReceived, icon: Bell, color: 'text-orange-600' },
+    { label: t('profile.emergencyCalls'), value: stats.emergencyCalls, icon: Phone, color: 'text-green-600' }
   ];
 
+  const permission = useNotificationPermission();
+
+  // Ask for system notification permission when the user opts in, so alerts can reach them in the background.
+  const enableNotifications = async (key: 'notifications' | 'emergencyAlerts', enabled: boolean) => {
+    if (enabled && permission !== 'unsupported') await requestNotificationPermission();
+    setPreference(key, enabled);
+  };
+  const handleNotificationsChange = (checked: boolean) => void enableNotifications('notifications', checked);
+  const handleEmergencyAlertsChange = (checked: boolean) => void enableNotifications('emergencyAlerts', checked);
+
+  const session = useSession();
+  const signOut = useSignOut();
+
+  const handleLogout = async () => {
+    await signOut.mutateAsync();
+    toast({ title: t('auth.signedOut') });
+  };
+
+  const handleSaved = () => {
+    setEditing(false);
+    toast({ title: t('profile.saved') });
+  };
+
   return (
     <div className="space-y-6">
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t.title}</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('profile.title')}</h2>
       </div>
 
       {/* User Stats */}
@@ -92,43 +78,70 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
         ))}
       </div>
 
-      {/* Personal Information */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <User className="w-5 h-5" />
-            <span>{t.personalInfo}</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-gray-700">{t.name}</label>
-            <div className="p-2 bg-gray-50 rounded border">
-              <span className="text-gray-900">राहुल शर्मा / Rahul Sharma</span>
-            </div>
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-gray-700">{t.phone}</label>
-            <div className="p-2 bg-gray-50 rounded border">
-              <span className="text-gray-900">+91 98765 43210</span>
-            </div>
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-gray-700">{t.location}</label>
-            <div className="p-2 bg-gray-50 rounded border flex items-center space-x-2">
-              <MapPin className="w-4 h-4 text-gray-500" />
-              <span className="text-gray-900">Mumbai, Maharashtra</span>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <CallHistory />
+
+      {/* Personal Information: the only part of this tab that needs an account */}
+      {session ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <User className="w-5 h-5" />
+              <span>{t('profile.personalInfo')}</span>
+              {!editing && (
+                <Button size="sm" variant="outline" className="ml-auto" onClick={() => setEditing(true)}>
+                  <Pencil className="w-4 h-4 mr-1" />
+                  {t('profile.edit')}
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {editing ? (
+              <ProfileForm
+                profile={profile}
+                onSaved={handleSaved}
+                onCancel={() => setEditing(false)}
+              />
+            ) : (
+              <>
+                {!isProfileComplete(profile) && (
+                  <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded p-2">
+                    {t('profile.completePrompt')}
+                  </p>
+                )}
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">{t('profile.name')}</label>
+                  <div className="p-2 bg-gray-50 rounded border">
+                    <span className="text-gray-900">{profile.name || notSet}</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">{t('profile.phone')}</label>
+                  <div className="p-2 bg-gray-50 rounded border">
+                    <span className="text-gray-900">{profile.phone ? formatIndianPhone(profile.phone) : notSet}</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">{t('profile.homeArea')}</label>
+                  <div className="p-2 bg-gray-50 rounded border flex items-center space-x-2">
+                    <MapPin className="w-4 h-4 text-gray-500" />
+                    <span className="text-gray-900">{profile.homeArea || notSet}</span>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <SignInPrompt />
+      )}
 
       {/* Preferences */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Settings className="w-5 h-5" />
-            <span>{t.preferences}</span>
+            <span>{t('profile.preferences')}</span>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -136,12 +149,44 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
             <div className="flex items-center space-x-3">
               <Bell className="w-5 h-5 text-gray-600" />
               <div>
-                <div className="font-medium">{t.notifications}</div>
-                <div className="text-sm text-gray-500">Receive flood alerts and updates</div>
+                <div className="font-medium">{t('profile.notifications')}</div>
+                <div className="text-sm text-gray-500">{t('profile.notificationsDescription')}</div>
               </div>
             </div>
-            <Switch checked={notifications} onCheckedChange={setNotifications} />
+            <Switch
+              checked={preferences.notifications}
+              onCheckedChange={handleNotificationsChange}
+            />
           </div>
+          {permission === 'denied' && (preferences.notifications || preferences.emergencyAlerts) && (
+            <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded p-2">
+              {t('profile.notificationsBlocked')}
+            </p>
+          )}
+
+          {preferences.notifications && (
+            <div className="flex items-center justify-between pl-8">
+              <div>
+                <div className="font-medium">{t('profile.alertThreshold')}</div>
+                <div className="text-sm text-gray-500">{t('profile.alertThresholdDescription')}</div>
+              </div>
+              <Select
+                value={preferences.alertThreshold}
+                onValueChange={(value) => setPreference('alertThreshold', value as AlertSeverity)}
+              >
+                <SelectTrigger className="w-40 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALERT_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {t(`profile.thresholds.${severity}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           
           <Separator />
           
@@ -149,11 +194,14 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
             <div className="flex items-center space-x-3">
               <MapPin className="w-5 h-5 text-gray-600" />
               <div>
-                <div className="font-medium">{t.locationSharing}</div>
-                <div className="text-sm text-gray-500">Help emergency services locate you</div>
+                <div className="font-medium">{t('profile.locationSharing')}</div>
+                <div className="text-sm text-gray-500">{t('profile.locationSharingDescription')}</div>
               </div>
             </div>
-            <Switch checked={locationSharing} onCheckedChange={setLocationSharing} />
+            <Switch
+              checked={preferences.locationSharing}
+              onCheckedChange={(checked) => setPreference('locationSharing', checked)}
+            />
           </div>
           
           <Separator />
@@ -162,11 +210,30 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
             <div className="flex items-center space-x-3">
               <Shield className="w-5 h-5 text-gray-600" />
               <div>
-                <div className="font-medium">{t.emergencyAlerts}</div>
-                <div className="text-sm text-gray-500">Critical emergency notifications</div>
+                <div className="font-medium">{t('profile.emergencyAlerts')}</div>
+                <div className="text-sm text-gray-500">{t('profile.emergencyAlertsDescription')}</div>
               </div>
             </div>
-            <Switch checked={emergencyAlerts} onCheckedChange={setEmergencyAlerts} />
+            <Switch
+              checked={preferences.emergencyAlerts}
+              onCheckedChange={handleEmergencyAlertsChange}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Volume2 className="w-5 h-5 text-gray-600" />
+              <div>
+                <div className="font-medium">{t('profile.alertSound')}</div>
+                <div className="text-sm text-gray-500">{t('profile.alertSoundDescription')}</div>
+              </div>
+            </div>
+            <Switch
+              checked={preferences.alertSound}
+              onCheckedChange={(checked) => setPreference('alertSound', checked)}
+            />
           </div>
 
           <Separator />
@@ -175,13 +242,15 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
             <div className="flex items-center space-x-3">
               <Globe className="w-5 h-5 text-gray-600" />
               <div>
-                <div className="font-medium">{t.language}</div>
-                <div className="text-sm text-gray-500">App display language</div>
+                <div className="font-medium">{t('profile.language')}</div>
+                <div className="text-sm text-gray-500">{t('profile.languageDescription')}</div>
               </div>
             </div>
-            <Badge variant="outline">
-              {selectedLanguage === 'en' ? 'English' : 'हिंदी'}
-            </Badge>
+            <LanguageSelector
+              selectedLanguage={language}
+              onLanguageChange={setLanguage}
+              className="w-32"
+            />
           </div>
         </CardContent>
       </Card>
@@ -191,28 +260,40 @@ const UserProfile: React.FC<UserProfileProps> = ({ selectedLanguage }) => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Info className="w-5 h-5" />
-            <span>{t.about}</span>
+            <span>{t('profile.about')}</span>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
           <div className="text-center space-y-2">
-            <div className="text-sm text-gray-600">{t.version}</div>
-            <div className="text-sm text-gray-600">{t.developer}</div>
+            <div className="text-sm text-gray-600">{t('profile.version')}</div>
+            <div className="text-sm text-gray-600">{t('profile.developer')}</div>
           </div>
           <Separator />
           <div className="space-y-2">
             <Button variant="ghost" className="w-full justify-start">
-              {t.privacy}
+              {t('profile.privacy')}
             </Button>
             <Button variant="ghost" className="w-full justify-start">
-              {t.terms}
+              {t('profile.terms')}
             </Button>
             <Button variant="ghost" className="w-full justify-start">
-              {t.help}
+              {t('profile.help')}
             </Button>
           </div>
         </CardContent>
       </Card>
+
+      {session && (
+        <Button
+          variant="outline"
+          className="w-full text-red-700 border-red-200 hover:bg-red-50 hover:text-red-800"
+          onClick={handleLogout}
+          disabled={signOut.isPending}
+        >
+          <LogOut className="w-4 h-4 mr-2" />
+          {t('profile.logout')}
+        </Button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,36 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { useAlerts } from '@/hooks/use-alerts';
+import { usePreferences } from '@/hooks/use-preferences';
+import { shouldNotifyAlert } from '@/lib/alerts/notifications';
+import { isAlertActive, type FloodAlert } from '@/lib/alerts/types';
+import type { Coordinates } from '@/lib/geo';
+
+/**
+ * Calls `notify` for each active alert that appears after the feed's first load,
+ * filtered by the user's notification preferences and distance from `location`.
+ * Alerts already in the feed when the app opens are shown in the alerts tab rather
+ * than announced.
+ */
+export function useAlertNotifications(location: Coordinates | null, notify: (alert: FloodAlert) => void) {
+  const { data: alerts } = useAlerts();
+  const { preferences } = usePreferences();
+  const seen = useRef<Set<string> | null>(null);
+  const notifyRef = useRef(notify);
+  // Layout effects run before the effect below, so it always calls the latest `notify`.
+  useLayoutEffect(() => {
+    notifyRef.current = notify;
+  });
+
+  useEffect(() => {
+    if (!alerts) return;
+    if (!seen.current) {
+      seen.current = new Set(alerts.map((alert) => alert.id));
+      return;
+    }
+    for (const alert of alerts) {
+      if (seen.current.has(alert.id)) continue;
+      seen.current.add(alert.id);
+      if (isAlertActive(alert) && shouldNotifyAlert(alert, preferences, location)) notifyRef.current(alert);
+    }
+  }, [alerts, preferences, location]);
+}
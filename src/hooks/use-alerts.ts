@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchAlerts } from '@/lib/alerts/feed';
+import { recordReceivedAlerts } from '@/lib/alerts/history';
+
+const ALERT_REFRESH_INTERVAL_MS = 60_000;
+
+export const alertKeys = {
+  all: ['alerts'] as const,
+};
+
+export function useAlerts() {
+  return useQuery({
+    queryKey: alertKeys.all,
+    queryFn: async ({ signal }) => {
+      const alerts = await fetchAlerts(signal);
+      recordReceivedAlerts(alerts);
+      return alerts;
+    },
+    staleTime: ALERT_REFRESH_INTERVAL_MS / 2,
+    refetchInterval: ALERT_REFRESH_INTERVAL_MS,
+    // Keep polling while the app sits in a background tab; warnings must not wait for a focus event.
+    refetchIntervalInBackground: true,
+  });
+}
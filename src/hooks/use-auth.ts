@@ -0,0 +1,29 @@
+import { useSyncExternalStore } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { getAuthProvider } from '@/lib/auth/provider';
+import { endSession, isSessionActive, sessionStore, startSession } from '@/lib/auth/session';
+import type { OtpChallenge } from '@/lib/auth/types';
+
+/** The signed-in session, or null when signed out or expired. */
+export function useSession() {
+  const session = useSyncExternalStore(sessionStore.subscribe, sessionStore.getSnapshot);
+  return isSessionActive(session) ? session : null;
+}
+
+export function useRequestOtp() {
+  return useMutation({
+    mutationFn: (phone: string) => getAuthProvider().requestOtp(phone),
+  });
+}
+
+export function useVerifyOtp() {
+  return useMutation({
+    mutationFn: ({ challenge, code }: { challenge: OtpChallenge; code: string }) =>
+      getAuthProvider().verifyOtp(challenge, code),
+    onSuccess: startSession,
+  });
+}
+
+export function useSignOut() {
+  return useMutation({ mutationFn: endSession });
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+
+/** The parts of the Battery Status API used here; it is not in TypeScript's DOM types. */
+interface BatteryManager extends EventTarget {
+  level: number;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+/** Battery charge as a whole percentage, or null where the browser does not expose it (Safari, Firefox). */
+export function useBatteryLevel() {
+  const [level, setLevel] = useState<number | null>(null);
+
+  useEffect(() => {
+    const { getBattery } = navigator as NavigatorWithBattery;
+    if (!getBattery) return;
+
+    let battery: BatteryManager | null = null;
+    let cancelled = false;
+    const update = () => battery && setLevel(Math.round(battery.level * 100));
+
+    getBattery
+      .call(navigator)
+      .then((manager) => {
+        if (cancelled) return;
+        battery = manager;
+        update();
+        manager.addEventListener('levelchange', update);
+      })
+      .catch((error) => console.warn('Battery level unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      battery?.removeEventListener('levelchange', update);
+    };
+  }, []);
+
+  return level;
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { callLog } from '@/lib/calls';
+
+export function useCallLog() {
+  return useSyncExternalStore(callLog.subscribe, callLog.getSnapshot);
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { CameraAccessError, openCamera, stopStream, type CameraError } from '@/lib/camera';
+
+/** A live camera stream while `active`; the camera is released as soon as it goes false or the component unmounts. */
+export function useCamera(active: boolean) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<CameraError | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let opened: MediaStream | null = null;
+    let cancelled = false;
+    setError(null);
+
+    openCamera()
+      .then((camera) => {
+        if (cancelled) {
+          stopStream(camera);
+          return;
+        }
+        opened = camera;
+        setStream(camera);
+      })
+      .catch((reason) => {
+        if (cancelled) return;
+        console.warn('Camera unavailable:', reason);
+        setError(reason instanceof CameraAccessError ? reason.reason : 'unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+      stopStream(opened);
+      setStream(null);
+    };
+  }, [active]);
+
+  return { stream, error };
+}
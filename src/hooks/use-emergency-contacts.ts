@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { usePlaceName } from '@/hooks/use-place-name';
+import { BUNDLED_DIRECTORY, contactsForPlace, fetchContactDirectory } from '@/lib/emergencyContacts';
+
+export const contactDirectoryKeys = {
+  all: ['contact-directory'] as const,
+};
+
+/**
+ * Emergency numbers for where the user is: local ones for their district and state, then
+ * the national ones. Uses the copy of the directory bundled with the app until the file loads.
+ */
+export function useEmergencyContacts() {
+  const { location } = useGeolocation();
+  const { data: place = null } = usePlaceName(location);
+
+  const { data: directory } = useQuery({
+    queryKey: contactDirectoryKeys.all,
+    queryFn: ({ signal }) => fetchContactDirectory(signal),
+    initialData: BUNDLED_DIRECTORY,
+    // Treat the bundled copy as already out of date so the file is fetched straight away.
+    initialDataUpdatedAt: 0,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const contacts = useMemo(() => contactsForPlace(directory, place), [directory, place]);
+
+  return { contacts, place, updatedAt: directory.updatedAt };
+}
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import { useNow } from '@/hooks/use-now';
+import { isFixStale, locationService } from '@/lib/location';
+
+/**
+ * The device's position, kept current by a shared `watchPosition`. `location` is the last
+ * fix (null until one arrives); `stale` turns true once it is too old to rely on.
+ */
+export function useGeolocation() {
+  const { fix, error, locating } = useSyncExternalStore(locationService.subscribe, locationService.getSnapshot);
+  const now = useNow(15_000);
+
+  return {
+    location: fix,
+    error,
+    locating,
+    stale: fix !== null && isFixStale(fix, now),
+    retry: locationService.retry,
+  };
+}
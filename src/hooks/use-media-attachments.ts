@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { MAX_PHOTOS, PhotoProcessingError, preparePhoto, type PreparedPhoto } from '@/lib/photos';
+import { MAX_VIDEOS, VideoProcessingError, compressVideo, type PreparedVideo } from '@/lib/video';
+
+export type MediaKind = 'photo' | 'video';
+
+/** A photo or clip that is ready, e.g. one just taken with the in-app camera. */
+export type PreparedMedia = (PreparedPhoto & { kind: 'photo' }) | (PreparedVideo & { kind: 'video' });
+
+export type MediaAttachment = PreparedMedia & {
+  id: string;
+  /** Object URL of `file`, for the thumbnail. Revoked when the attachment is removed. */
+  previewUrl: string;
+};
+
+export type MediaRejection = PhotoProcessingError['reason'] | VideoProcessingError['reason'] | 'tooMany';
+
+export interface AddMediaResult {
+  rejected: { name: string; reason: MediaRejection }[];
+}
+
+export interface AddMediaOptions {
+  /** The files come straight from the camera, so their capture time is stamped on them. */
+  watermark?: boolean;
+}
+
+const LIMITS: Record<MediaKind, number> = { photo: MAX_PHOTOS, video: MAX_VIDEOS };
+
+const kindOf = (file: File): MediaKind => (file.type.startsWith('video/') ? 'video' : 'photo');
+
+const prepare = async (file: File, options: AddMediaOptions): Promise<PreparedMedia> =>
+  kindOf(file) === 'video'
+    ? { kind: 'video', ...(await compressVideo(file, options)) }
+    : { kind: 'photo', ...(await preparePhoto(file, options)) };
+
+/**
+ * Photos and video clips attached to a report being written. Each file is compressed and
+ * stripped of metadata as it is added, one at a time so a low-end phone is not asked to
+ * decode several large files at once.
+ */
+export function useMediaAttachments() {
+  const [attachments, setAttachments] = useState<MediaAttachment[]>([]);
+  const [processing, setProcessing] = useState(0);
+  // Mirrors `attachments` for the async `add`, and for revoking every URL on unmount.
+  const current = useRef<MediaAttachment[]>([]);
+  // Files accepted but not yet prepared, which already count against the limits.
+  const pending = useRef<Record<MediaKind, number>>({ photo: 0, video: 0 });
+
+  const update = (next: MediaAttachment[]) => {
+    current.current = next;
+    setAttachments(next);
+  };
+
+  useEffect(() => () => current.current.forEach((media) => URL.revokeObjectURL(media.previewUrl)), []);
+
+  const room = (kind: MediaKind) =>
+    LIMITS[kind] - current.current.filter((media) => media.kind === kind).length - pending.current[kind];
+
+  const append = (media: PreparedMedia) => {
+    update([...current.current, { ...media, id: crypto.randomUUID(), previewUrl: URL.createObjectURL(media.file) }]);
+  };
+
+  const add = async (files: File[], options: AddMediaOptions = {}): Promise<AddMediaResult> => {
+    const rejected: AddMediaResult['rejected'] = [];
+    const accepted = files.filter((file) => {
+      const kind = kindOf(file);
+      if (room(kind) > 0) {
+        pending.current[kind] += 1;
+        return true;
+      }
+      rejected.push({ name: file.name, reason: 'tooMany' });
+      return false;
+    });
+
+    setProcessing((count) => count + accepted.length);
+    for (const file of accepted) {
+      try {
+        append(await prepare(file, options));
+      } catch (error) {
+        const known = error instanceof PhotoProcessingError || error instanceof VideoProcessingError;
+        if (!known) console.error('Could not prepare attachment:', error);
+        rejected.push({ name: file.name, reason: known ? error.reason : 'unsupported' });
+      } finally {
+        pending.current[kindOf(file)] -= 1;
+        setProcessing((count) => count - 1);
+      }
+    }
+    return { rejected };
+  };
+
+  /** Adds a photo or clip taken with the in-app camera. False when there is no room for it. */
+  const attach = (media: PreparedMedia) => {
+    if (room(media.kind) <= 0) return false;
+    append(media);
+    return true;
+  };
+
+  const remove = (id: string) => {
+    const media = current.current.find((entry) => entry.id === id);
+    if (media) URL.revokeObjectURL(media.previewUrl);
+    update(current.current.filter((entry) => entry.id !== id));
+  };
+
+  const clear = () => {
+    current.current.forEach((media) => URL.revokeObjectURL(media.previewUrl));
+    update([]);
+  };
+
+  const count = (kind: MediaKind) => attachments.filter((media) => media.kind === kind).length;
+  const canAdd: Record<MediaKind, boolean> = {
+    photo: count('photo') < MAX_PHOTOS,
+    video: count('video') < MAX_VIDEOS,
+  };
+
+  return { attachments, processing: processing > 0, canAdd, add, attach, remove, clear };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { notificationPermission, subscribeNotificationPermission } from '@/lib/notifications';
+
+export function useNotificationPermission() {
+  return useSyncExternalStore(subscribeNotificationPermission, notificationPermission);
+}
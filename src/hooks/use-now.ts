@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** Current time in milliseconds, refreshed every `intervalMs` so relative timestamps keep moving. */
+export function useNow(intervalMs = 30_000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { reportOutbox } from '@/lib/reports/outbox';
+import { reportKeys } from '@/hooks/use-reports';
+
+export function useOutbox() {
+  const entries = useSyncExternalStore(reportOutbox.subscribe, reportOutbox.getSnapshot);
+  const queryClient = useQueryClient();
+  const sentCount = useRef(0);
+
+  // Reports delivered in the background should show up in report lists without a reload.
+  useEffect(() => {
+    const sent = entries.filter((entry) => entry.status === 'sent').length;
+    if (sent !== sentCount.current) {
+      sentCount.current = sent;
+      queryClient.invalidateQueries({ queryKey: reportKeys.all });
+    }
+  }, [entries, queryClient]);
+
+  return entries;
+}
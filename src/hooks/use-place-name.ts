@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from '@/hooks/use-translation';
+import { getReverseGeocoder } from '@/lib/geocoding';
+import type { Coordinates } from '@/lib/geo';
+
+/** ~100 m; finer movement rarely changes the locality and would defeat the cache. */
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+export const placeNameKeys = {
+  all: ['place-name'] as const,
+  point: (lat: number, lng: number, language: string) => ['place-name', lat, lng, language] as const,
+};
+
+/** Locality, district and state for a point, in the selected language where the geocoder supports it. */
+export function usePlaceName(coordinates: Coordinates | null) {
+  const { language } = useTranslation();
+  const lat = coordinates ? roundCoordinate(coordinates.lat) : 0;
+  const lng = coordinates ? roundCoordinate(coordinates.lng) : 0;
+
+  return useQuery({
+    queryKey: placeNameKeys.point(lat, lng, language),
+    queryFn: () => getReverseGeocoder().reverse({ lat, lng }, language),
+    enabled: coordinates !== null,
+    // Place names do not change; keep them for the session.
+    staleTime: Infinity,
+    // A moving user should keep seeing the last name while the next one loads.
+    placeholderData: (previous) => previous,
+  });
+}
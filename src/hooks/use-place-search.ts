@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from '@/hooks/use-translation';
+import { getForwardGeocoder } from '@/lib/geocoding';
+import { fetchPinCodeAreas, matchPinCodes, mergeSearchResults, pinCodeRegion, searchGazetteer } from '@/lib/places';
+
+/** Waits for a pause in typing before asking the online service, which allows about one request a second. */
+const ONLINE_SEARCH_DELAY_MS = 600;
+
+/** PIN codes are answered from the bundled files, and one or two letters match too much to be worth a request. */
+const isOnlineQuery = (text: string) => text.length >= 3 && !/^\d+$/.test(text);
+
+export const placeSearchKeys = {
+  all: ['place-search'] as const,
+  pinCodes: (region: string) => ['place-search', 'pin-codes', region] as const,
+  online: (query: string, language: string) => ['place-search', 'online', query, language] as const,
+};
+
+/**
+ * Places matching what the user typed: the bundled gazetteer straight away, then every
+ * PIN code in the region once its file loads, then streets and villages from the online
+ * geocoder at `VITE_GEOCODER_URL`, when one is configured and the device is online.
+ */
+export function usePlaceSearch(query: string) {
+  const { language } = useTranslation();
+  const text = query.trim();
+  const [settled, setSettled] = useState(text);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(text), ONLINE_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const region = pinCodeRegion(text);
+  const pinCodes = useQuery({
+    queryKey: placeSearchKeys.pinCodes(region ?? ''),
+    queryFn: ({ signal }) => fetchPinCodeAreas(region ?? '', signal),
+    enabled: region !== null,
+    // The files change only with a new build.
+    staleTime: Infinity,
+  });
+
+  const geocoder = getForwardGeocoder();
+  const online = useQuery({
+    queryKey: placeSearchKeys.online(settled, language),
+    queryFn: ({ signal }) => geocoder?.search(settled, language, signal) ?? [],
+    enabled: geocoder !== null && settled === text && isOnlineQuery(settled),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const local = useMemo(() => searchGazetteer(text), [text]);
+  const pinMatches = useMemo(
+    () => (region !== null && pinCodes.data ? matchPinCodes(pinCodes.data, text) : []),
+    [region, pinCodes.data, text]
+  );
+  const results = useMemo(
+    () => mergeSearchResults([local, pinMatches, settled === text ? online.data ?? [] : []]),
+    [local, pinMatches, online.data, settled, text]
+  );
+
+  const waitingForOnline = geocoder !== null && settled !== text && isOnlineQuery(text);
+  return {
+    results,
+    searching: pinCodes.isFetching || online.isFetching || waitingForOnline,
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { preferencesStore, setPreference } from '@/lib/preferences';
+
+export function usePreferences() {
+  const preferences = useSyncExternalStore(preferencesStore.subscribe, preferencesStore.getSnapshot);
+  return { preferences, setPreference };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { profileStore } from '@/lib/profile';
+
+export function useProfile() {
+  return useSyncExternalStore(profileStore.subscribe, profileStore.getSnapshot);
+}
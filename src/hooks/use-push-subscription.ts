@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useNotificationPermission } from '@/hooks/use-notification-permission';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useTranslation } from '@/hooks/use-translation';
+import { notificationThreshold } from '@/lib/alerts/notifications';
+import type { Coordinates } from '@/lib/geo';
+import { syncPushSubscription } from '@/lib/push';
+
+/** ~1 km; finer movement does not change which alerts are near enough to push. */
+const roundCoordinate = (value: number) => Math.round(value * 100) / 100;
+
+/** Keeps the Web Push subscription and its server-side targeting in step with settings and location. */
+export function usePushSubscription(location: Coordinates | null) {
+  const { preferences } = usePreferences();
+  const { language } = useTranslation();
+  // Subscribing needs permission, which may be granted long after the preferences were set.
+  const permission = useNotificationPermission();
+  const minSeverity = notificationThreshold(preferences);
+  const lat = location && preferences.locationSharing ? roundCoordinate(location.lat) : null;
+  const lng = location && preferences.locationSharing ? roundCoordinate(location.lng) : null;
+
+  useEffect(() => {
+    syncPushSubscription({
+      minSeverity,
+      location: lat !== null && lng !== null ? { lat, lng } : null,
+      language,
+    }).catch((error) => console.warn('Push subscription update failed:', error));
+  }, [minSeverity, lat, lng, language, permission]);
+}
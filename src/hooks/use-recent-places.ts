@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { recentPlaces } from '@/lib/places';
+
+export function useRecentPlaces() {
+  return useSyncExternalStore(recentPlaces.subscribe, recentPlaces.getSnapshot);
+}
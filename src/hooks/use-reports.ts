@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createReport, getReportStore } from '@/lib/reports/store';
+import { reportOutbox } from '@/lib/reports/outbox';
+import { recordSubmittedReport } from '@/lib/reports/history';
+import type { NewFloodReport, ReportQuery } from '@/lib/reports/types';
+
+export const reportKeys = {
+  all: ['reports'] as const,
+  list: (query: ReportQuery) => ['reports', 'list', query] as const,
+  detail: (id: string) => ['reports', 'detail', id] as const,
+};
+
+export function useReports(query: ReportQuery = {}) {
+  return useQuery({
+    queryKey: reportKeys.list(query),
+    queryFn: () => getReportStore().list(query),
+  });
+}
+
+export function useReport(id: string | null) {
+  return useQuery({
+    queryKey: reportKeys.detail(id ?? ''),
+    queryFn: () => getReportStore().get(id!),
+    enabled: !!id,
+  });
+}
+
+/** How long the submit button waits on the first delivery attempt before leaving it to the outbox. */
+const FIRST_ATTEMPT_TIMEOUT_MS = 15_000;
+
+/**
+ * Queues the report in the outbox and makes one immediate delivery attempt.
+ * Resolves with the outbox entry once that attempt has finished or timed out;
+ * its status tells the caller whether the report was sent or is still queued.
+ */
+export function useSubmitReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: NewFloodReport) => {
+      const entry = await reportOutbox.enqueue(createReport(input));
+      recordSubmittedReport(entry.report);
+      return (await reportOutbox.sendNow(entry.id, FIRST_ATTEMPT_TIMEOUT_MS)) ?? entry;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: reportKeys.all }),
+  });
+}
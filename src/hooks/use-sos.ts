@@ -0,0 +1,65 @@
+import { useSyncExternalStore } from 'react';
+import { useBatteryLevel } from '@/hooks/use-battery';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useNow } from '@/hooks/use-now';
+import { usePlaceName } from '@/hooks/use-place-name';
+import { useProfile } from '@/hooks/use-profile';
+import { useTranslation } from '@/hooks/use-translation';
+import { useTrustedContacts } from '@/hooks/use-trusted-contacts';
+import { formatPlaceName } from '@/lib/geocoding';
+import {
+  activeSosEvent,
+  cancelSos,
+  composeSosMessage,
+  deliverSosMessage,
+  nextSosUpdateAt,
+  recordSosMessage,
+  sosLog,
+  type SosChannel,
+  type SosMessageKind,
+  type SosSnapshot,
+} from '@/lib/sos';
+
+/**
+ * The SOS state and its actions. `send` composes a message from the latest fix (with its
+ * time, flagged as the last known location once stale), place name and battery level,
+ * hands it to the SMS app (or the share sheet when there are no trusted contacts) and
+ * logs it. Call it from a click handler.
+ */
+export function useSos() {
+  const { t, language } = useTranslation();
+  const events = useSyncExternalStore(sosLog.subscribe, sosLog.getSnapshot);
+  const contacts = useTrustedContacts();
+  const profile = useProfile();
+  const { location } = useGeolocation();
+  const { data: place } = usePlaceName(location);
+  const battery = useBatteryLevel();
+  const now = useNow(5_000);
+
+  const active = activeSosEvent(events);
+  const nextUpdateAt = active ? nextSosUpdateAt(active) : null;
+
+  const send = async (kind: SosMessageKind, channel: SosChannel = contacts.length > 0 ? 'sms' : 'share') => {
+    const snapshot: SosSnapshot = {
+      fix: location,
+      placeName: place ? formatPlaceName(place, t) : null,
+      battery,
+      senderName: profile.name,
+    };
+    const phones = contacts.map((contact) => contact.phone);
+    const used = await deliverSosMessage(channel, phones, composeSosMessage(kind, snapshot, language, t));
+    if (used) recordSosMessage(kind, used, used === 'sms' ? phones.length : 0, snapshot);
+    return used !== null;
+  };
+
+  return {
+    active,
+    events,
+    contacts,
+    nextUpdateAt,
+    updateDue: nextUpdateAt !== null && now >= nextUpdateAt,
+    now,
+    send,
+    cancel: cancelSos,
+  };
+}
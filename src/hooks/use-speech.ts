@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { isSpeechSupported, speak, speechState, stopSpeaking } from '@/lib/speech';
+
+/** Text-to-speech state shared across the app: one readout plays at a time. */
+export function useSpeech() {
+  const speakingId = useSyncExternalStore(speechState.subscribe, speechState.getSnapshot);
+  return { supported: isSpeechSupported(), speakingId, speak, stop: stopSpeaking };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { trustedContacts } from '@/lib/trustedContacts';
+
+export function useTrustedContacts() {
+  return useSyncExternalStore(trustedContacts.subscribe, trustedContacts.getSnapshot);
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+import { receivedAlertCount } from '@/lib/alerts/history';
+import { callCount } from '@/lib/calls';
+import { submittedReportCount } from '@/lib/reports/history';
+
+/**
+ * Counts for the profile page, from what this device has actually recorded. These are
+ * running totals; the histories behind them are capped and forget their oldest entries.
+ */
+export function useUserStats() {
+  const reportsSubmitted = useSyncExternalStore(submittedReportCount.subscribe, submittedReportCount.getSnapshot);
+  const alertsReceived = useSyncExternalStore(receivedAlertCount.subscribe, receivedAlertCount.getSnapshot);
+  const emergencyCalls = useSyncExternalStore(callCount.subscribe, callCount.getSnapshot);
+
+  return { reportsSubmitted, alertsReceived, emergencyCalls };
+}
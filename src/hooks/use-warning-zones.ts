@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useNow } from '@/hooks/use-now';
+import { alertsContaining } from '@/lib/alerts/proximity';
+import type { Coordinates } from '@/lib/geo';
+
+/** Active warning areas the user is currently standing in. Re-evaluated as alerts, location or the clock change. */
+export function useActiveWarningZones(location: Coordinates | null) {
+  const { data: alerts = [] } = useAlerts();
+  const now = useNow(60_000);
+
+  return useMemo(
+    () => (location ? alertsContaining(alerts, location, now) : []),
+    [alerts, location, now]
+  );
+}
@@ -0,0 +1,36 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { translate, type Language, type TranslationKey, type TranslationParams } from './index';
+import { I18nContext } from './context';
+import { resolveInitialLanguage, storeLanguage, subscribeToStoredLanguage } from './preference';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+  /** Overrides the saved/detected language, e.g. for previews. */
+  initialLanguage?: Language;
+}
+
+const I18nProvider: React.FC<I18nProviderProps> = ({ children, initialLanguage }) => {
+  const [language, setLanguageState] = useState<Language>(() => initialLanguage ?? resolveInitialLanguage());
+
+  const setLanguage = useCallback((next: Language) => {
+    storeLanguage(next);
+    setLanguageState(next);
+  }, []);
+
+  useEffect(() => subscribeToStoredLanguage(setLanguageState), []);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    [language]
+  );
+
+  const value = useMemo(() => ({ language, setLanguage, t }), [language, setLanguage, t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
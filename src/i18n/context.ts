@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { Language, TranslateFn } from './index';
+
+export interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: TranslateFn;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { translate, type TranslationKey } from './index';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('translate', () => {
+  it('picks the English plural form for the count', () => {
+    expect(translate('en', 'alerts.activeCount', { count: 1 })).toBe('1 active alert');
+    expect(translate('en', 'alerts.activeCount', { count: 0 })).toBe('0 active alerts');
+    expect(translate('en', 'alerts.activeCount', { count: 7 })).toBe('7 active alerts');
+  });
+
+  it("follows each language's own plural rules", () => {
+    // Tamil, like English, uses the singular only for 1.
+    expect(translate('ta', 'alerts.activeCount', { count: 1 })).toBe('1 செயலில் உள்ள எச்சரிக்கை');
+    expect(translate('ta', 'alerts.activeCount', { count: 2 })).toBe('2 செயலில் உள்ள எச்சரிக்கைகள்');
+    // Kannada also uses it for 0.
+    expect(translate('kn', 'alerts.activeCount', { count: 0 })).toBe('0 ಸಕ್ರಿಯ ಎಚ್ಚರಿಕೆ');
+    expect(translate('kn', 'alerts.activeCount', { count: 2 })).toBe('2 ಸಕ್ರಿಯ ಎಚ್ಚರಿಕೆಗಳು');
+  });
+
+  it('uses the plain key when a string has no plural forms', () => {
+    expect(translate('en', 'sos.messagesSent', { count: 3 })).toBe('Messages sent: 3');
+  });
+
+  it('leaves unknown placeholders in place', () => {
+    expect(translate('en', 'sos.messagesSent')).toBe('Messages sent: {count}');
+  });
+
+  it('falls back to the key itself when no language has it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(translate('hi', 'missing.key' as TranslationKey)).toBe('missing.key');
+  });
+});
@@ -0,0 +1,103 @@
+import en from './locales/en.json';
+import hi from './locales/hi.json';
+import ta from './locales/ta.json';
+import te from './locales/te.json';
+import bn from './locales/bn.json';
+import mr from './locales/mr.json';
+import gu from './locales/gu.json';
+import kn from './locales/kn.json';
+
+export const LANGUAGES = [
+  { code: 'en', name: 'English', native: 'English' },
+  { code: 'hi', name: 'Hindi', native: 'हिंदी' },
+  { code: 'ta', name: 'Tamil', native: 'தமிழ்' },
+  { code: 'te', name: 'Telugu', native: 'తెలుగు' },
+  { code: 'bn', name: 'Bengali', native: 'বাংলা' },
+  { code: 'mr', name: 'Marathi', native: 'मराठी' },
+  { code: 'gu', name: 'Gujarati', native: 'ગુજરાતી' },
+  { code: 'kn', name: 'Kannada', native: 'ಕನ್ನಡ' },
+] as const;
+
+export type Language = typeof LANGUAGES[number]['code'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+type Resource = typeof en;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends string ? string : DeepPartial<T[K]> };
+
+/** English is the source of truth; every other locale may be incomplete and falls back to it key by key. */
+export const resources: { en: Resource } & Record<Exclude<Language, 'en'>, DeepPartial<Resource>> = {
+  en,
+  hi,
+  ta,
+  te,
+  bn,
+  mr,
+  gu,
+  kn,
+};
+
+type PluralSuffix = `_${Intl.LDMLPluralRule}`;
+
+/** Dot-separated paths to every string in the English resource, with plural suffixes folded away. */
+type Paths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K extends `${infer Base}${PluralSuffix}` ? Base : K}`
+    : Paths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type TranslationKey = Paths<Resource>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.code === value);
+
+const lookup = (resource: unknown, key: string): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    resource
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const pluralCategory = (language: Language, count: number) => {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(language));
+  return pluralRules.get(language)!.select(count);
+};
+
+const interpolate = (template: string, params?: TranslationParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+/** Candidate keys in order: the plural form for `count` in this language, `_other`, then the bare key. */
+const candidateKeys = (language: Language, key: string, params?: TranslationParams) => {
+  if (typeof params?.count !== 'number') return [key];
+  return [`${key}_${pluralCategory(language, params.count)}`, `${key}_other`, key];
+};
+
+const resolve = (language: Language, key: string, params?: TranslationParams) => {
+  for (const candidate of candidateKeys(language, key, params)) {
+    const value = lookup(resources[language], candidate);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Looks up `key` in `language`, falling back to English and finally to the key
+ * itself, then substitutes `{name}` placeholders. Passing a numeric `count`
+ * selects the `key_one` / `key_few` / `key_other` … form for that language.
+ */
+export const translate = (language: Language, key: TranslationKey, params?: TranslationParams): string => {
+  const template = resolve(language, key, params) ?? resolve(DEFAULT_LANGUAGE, key, params);
+  if (template === undefined) {
+    if (import.meta.env.DEV) console.warn(`Missing translation for "${key}"`);
+    return key;
+  }
+  return interpolate(template, params);
+};
+
+export type TranslateFn = (key: TranslationKey, params?: TranslationParams) => string;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGES, resources } from './index';
+
+/** Every string in a locale by its dot-separated path, plural suffixes included. */
+const flatten = (node: object, prefix = '', out = new Map<string, string>()) => {
+  for (const [key, value] of Object.entries(node)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object') flatten(value, path, out);
+    else out.set(path, String(value));
+  }
+  return out;
+};
+
+const placeholders = (template: string) =>
+  [...new Set([...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]))].sort().join();
+
+const base = flatten(resources.en);
+
+describe.each(LANGUAGES.filter(({ code }) => code !== 'en'))('the $name translation', ({ code }) => {
+  const strings = flatten(resources[code]);
+
+  it('has every English key and no others', () => {
+    expect([...strings.keys()].sort()).toEqual([...base.keys()].sort());
+  });
+
+  it('keeps the placeholders of each English string', () => {
+    const broken = [...strings]
+      .filter(([key]) => base.has(key))
+      .filter(([key, template]) => placeholders(template) !== placeholders(base.get(key) ?? ''))
+      .map(([key]) => key);
+    expect(broken).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectLanguage, resolveInitialLanguage, storeLanguage } from './preference';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('detectLanguage', () => {
+  it('matches on the primary subtag', () => {
+    expect(detectLanguage(['hi-IN'])).toBe('hi');
+    expect(detectLanguage(['TA-in'])).toBe('ta');
+    expect(detectLanguage(['en-GB'])).toBe('en');
+  });
+
+  it('takes the first supported language in order of preference', () => {
+    expect(detectLanguage(['fr-FR', 'mr-IN', 'hi-IN'])).toBe('mr');
+  });
+
+  it('finds nothing when no language is supported', () => {
+    expect(detectLanguage(['fr-FR', 'ur-IN'])).toBeNull();
+    expect(detectLanguage([])).toBeNull();
+  });
+});
+
+describe('resolveInitialLanguage', () => {
+  it("prefers the user's saved choice to the browser's", () => {
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['ta-IN']);
+    storeLanguage('bn');
+    expect(resolveInitialLanguage()).toBe('bn');
+  });
+
+  it("uses the browser's languages when nothing is saved", () => {
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['de-DE', 'kn-IN']);
+    expect(resolveInitialLanguage()).toBe('kn');
+  });
+
+  it('falls back to English', () => {
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['de-DE']);
+    localStorage.setItem('suraksha.language', 'xx');
+    expect(resolveInitialLanguage()).toBe('en');
+  });
+});
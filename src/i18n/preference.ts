@@ -0,0 +1,48 @@
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from './index';
+
+const STORAGE_KEY = 'suraksha.language';
+
+/** Picks the first supported language from a list of BCP 47 tags, matching on the primary subtag ("hi-IN" → "hi"). */
+export const detectLanguage = (candidates: readonly string[]): Language | null => {
+  for (const tag of candidates) {
+    const primary = tag.toLowerCase().split('-')[0];
+    if (isLanguage(primary)) return primary;
+  }
+  return null;
+};
+
+export const loadStoredLanguage = (): Language | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : null;
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies); fall back to detection.
+    return null;
+  }
+};
+
+export const storeLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Not persisting is acceptable; the choice still applies for this session.
+  }
+};
+
+/** The user's saved choice, else the browser's preferred languages, else English. */
+export const resolveInitialLanguage = (): Language => {
+  const stored = loadStoredLanguage();
+  if (stored) return stored;
+  if (typeof navigator === 'undefined') return DEFAULT_LANGUAGE;
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  return detectLanguage(preferred) ?? DEFAULT_LANGUAGE;
+};
+
+/** Keeps other open tabs in step when the language is changed in one of them. */
+export const subscribeToStoredLanguage = (onChange: (language: Language) => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY && isLanguage(event.newValue)) onChange(event.newValue);
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
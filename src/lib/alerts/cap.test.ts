@@ -0,0 +1,180 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CapParseError, mapCapSeverity, parseCapDocument } from './cap';
+
+interface AlertFixture {
+  identifier: string;
+  msgType?: string;
+  status?: string;
+  references?: string;
+  infos?: string[];
+}
+
+const info = ({
+  language = 'en-IN',
+  severity = 'Severe',
+  urgency = 'Expected',
+  certainty = 'Likely',
+  headline = 'Heavy rainfall warning',
+  area = '<polygon>19.0,72.8 19.0,73.0 19.2,73.0 19.2,72.8 19.0,72.8</polygon>',
+  extra = '',
+} = {}) => `
+  <info>
+    <language>${language}</language>
+    <category>Met</category>
+    <event>Flood</event>
+    <urgency>${urgency}</urgency>
+    <severity>${severity}</severity>
+    <certainty>${certainty}</certainty>
+    <headline>${headline}</headline>
+    <description>Water levels are rising.</description>
+    <instruction>Move to higher ground.</instruction>
+    ${extra}
+    <area>
+      <areaDesc>Mumbai Suburban</areaDesc>
+      ${area}
+    </area>
+  </info>`;
+
+const alert = ({ identifier, msgType = 'Alert', status = 'Actual', references, infos = [info()] }: AlertFixture) => `
+<alert xmlns="urn:oasis:names:tc:emergency:cap:1.2">
+  <identifier>${identifier}</identifier>
+  <sender>sachet@ndma.gov.in</sender>
+  <sent>2026-07-14T09:00:00+05:30</sent>
+  <status>${status}</status>
+  <msgType>${msgType}</msgType>
+  <scope>Public</scope>
+  ${references ? `<references>${references}</references>` : ''}
+  ${infos.join('')}
+</alert>`;
+
+const feed = (...alerts: string[]) => `<?xml version="1.0" encoding="UTF-8"?><feed>${alerts.join('')}</feed>`;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mapCapSeverity', () => {
+  it('maps CAP severity to a base level', () => {
+    expect(mapCapSeverity('Extreme', 'Expected', 'Possible')).toBe('critical');
+    expect(mapCapSeverity('Severe', 'Expected', 'Possible')).toBe('high');
+    expect(mapCapSeverity('Moderate', 'Expected', 'Possible')).toBe('medium');
+    expect(mapCapSeverity('Minor', 'Expected', 'Possible')).toBe('low');
+    expect(mapCapSeverity('Unknown', 'Expected', 'Possible')).toBe('low');
+  });
+
+  it('raises an immediate, observed or likely threat one level', () => {
+    expect(mapCapSeverity('Severe', 'Immediate', 'Observed')).toBe('critical');
+    expect(mapCapSeverity('Moderate', 'Immediate', 'Likely')).toBe('high');
+    expect(mapCapSeverity('Moderate', 'Immediate', 'Possible')).toBe('medium');
+  });
+
+  it('lowers a past or unlikely threat one level', () => {
+    expect(mapCapSeverity('Severe', 'Past', 'Observed')).toBe('medium');
+    expect(mapCapSeverity('Extreme', 'Expected', 'Unlikely')).toBe('high');
+  });
+
+  it('stays within the scale', () => {
+    expect(mapCapSeverity('Extreme', 'Immediate', 'Observed')).toBe('critical');
+    expect(mapCapSeverity('Minor', 'Past', 'Unlikely')).toBe('low');
+  });
+});
+
+describe('parseCapDocument', () => {
+  it('maps an alert with a polygon', () => {
+    const [parsed] = parseCapDocument(alert({ identifier: 'A1', infos: [info({ extra: '<expires>2026-07-15T09:00:00+05:30</expires>' })] }));
+    expect(parsed).toMatchObject({
+      id: 'A1',
+      severity: 'high',
+      issuedAt: '2026-07-14T03:30:00.000Z',
+      expiresAt: '2026-07-15T03:30:00.000Z',
+      source: { name: 'sachet@ndma.gov.in' },
+      text: {
+        en: {
+          title: 'Heavy rainfall warning',
+          description: 'Water levels are rising.\n\nMove to higher ground.',
+          areaName: 'Mumbai Suburban',
+        },
+      },
+    });
+    // CAP points are "lat,lon"; GeoJSON positions are [lon, lat].
+    expect(parsed.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [[[72.8, 19], [73, 19], [73, 19.2], [72.8, 19.2], [72.8, 19]]],
+    });
+  });
+
+  it('turns a circle into a ring', () => {
+    const [parsed] = parseCapDocument(alert({ identifier: 'A1', infos: [info({ area: '<circle>19.1,72.9 5</circle>' })] }));
+    expect(parsed.geometry.type).toBe('Polygon');
+  });
+
+  it('keeps each language and the most severe level across info blocks', () => {
+    const [parsed] = parseCapDocument(
+      alert({
+        identifier: 'A1',
+        infos: [
+          info({ language: 'en-IN', severity: 'Moderate' }),
+          info({ language: 'hi-IN', severity: 'Extreme', headline: 'भारी वर्षा की चेतावनी' }),
+        ],
+      })
+    );
+    expect(parsed.severity).toBe('critical');
+    expect(Object.keys(parsed.text).sort()).toEqual(['en', 'hi']);
+    expect(parsed.text.hi?.title).toBe('भारी वर्षा की चेतावनी');
+    // The repeated area is kept once.
+    expect(parsed.geometry.type).toBe('Polygon');
+  });
+
+  it('drops the alerts a Cancel references', () => {
+    const alerts = parseCapDocument(
+      feed(
+        alert({ identifier: 'A1' }),
+        alert({ identifier: 'A2' }),
+        alert({ identifier: 'C1', msgType: 'Cancel', references: 'sachet@ndma.gov.in,A1,2026-07-14T09:00:00+05:30' })
+      )
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['A2']);
+  });
+
+  it('replaces the alerts an Update references', () => {
+    const alerts = parseCapDocument(
+      feed(
+        alert({ identifier: 'A1' }),
+        alert({
+          identifier: 'A1-update',
+          msgType: 'Update',
+          references: 'sachet@ndma.gov.in,A1,2026-07-14T09:00:00+05:30',
+          infos: [info({ severity: 'Extreme' })],
+        })
+      )
+    );
+    expect(alerts.map((item) => [item.id, item.severity])).toEqual([['A1-update', 'critical']]);
+  });
+
+  it('ignores exercises and tests', () => {
+    const alerts = parseCapDocument(
+      feed(alert({ identifier: 'T1', status: 'Test' }), alert({ identifier: 'E1', status: 'Exercise' }), alert({ identifier: 'A1' }))
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['A1']);
+  });
+
+  it('skips invalid alerts and keeps the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const alerts = parseCapDocument(
+      feed(alert({ identifier: 'BAD', infos: [info({ severity: 'Catastrophic' })] }), alert({ identifier: 'A1' }))
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['A1']);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('skips alerts without a polygon or circle', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseCapDocument(alert({ identifier: 'A1', infos: [info({ area: '<geocode><valueName>district</valueName><value>Pune</value></geocode>' })] }))).toEqual([]);
+  });
+
+  it('rejects documents that are not XML or have no CAP alerts', () => {
+    expect(() => parseCapDocument('<feed><alert>')).toThrow(CapParseError);
+    expect(() => parseCapDocument('<feed><alert><identifier>A1</identifier></alert></feed>')).toThrow(CapParseError);
+  });
+});
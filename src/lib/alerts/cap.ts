@@ -0,0 +1,232 @@
+/**
+ * Common Alerting Protocol (CAP) 1.2 ingestion, as published by NDMA's
+ * SACHET, IMD and CWC. See http://docs.oasis-open.org/emergency/cap/v1.2/.
+ */
+import { circleToRing, type Geometry, type LinearRing, type Position } from '@/lib/geo';
+import { ALERT_SEVERITIES, type AlertSeverity, type FloodAlert, type LocalizedAlertText } from './types';
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+
+export type CapSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown';
+export type CapUrgency = 'Immediate' | 'Expected' | 'Future' | 'Past' | 'Unknown';
+export type CapCertainty = 'Observed' | 'Likely' | 'Possible' | 'Unlikely' | 'Unknown';
+
+export class CapParseError extends Error {
+  constructor(message: string, public readonly identifier?: string) {
+    super(identifier ? `${message} (alert ${identifier})` : message);
+    this.name = 'CapParseError';
+  }
+}
+
+/** Result of parsing one `<alert>`: an alert to show, or identifiers it withdraws. */
+export type CapMessage =
+  | { kind: 'alert'; alert: FloodAlert }
+  | { kind: 'cancel'; cancels: string[] }
+  | { kind: 'ignored'; reason: string };
+
+const CAP_SEVERITY_LEVEL: Record<CapSeverity, AlertSeverity> = {
+  Extreme: 'critical',
+  Severe: 'high',
+  Moderate: 'medium',
+  Minor: 'low',
+  Unknown: 'low',
+};
+
+/**
+ * CAP severity sets the base level. An immediate, observed-or-likely threat is
+ * raised one level; a past or unlikely one is lowered one level.
+ */
+export const mapCapSeverity = (severity: CapSeverity, urgency: CapUrgency, certainty: CapCertainty): AlertSeverity => {
+  let rank = ALERT_SEVERITIES.indexOf(CAP_SEVERITY_LEVEL[severity] ?? 'low');
+  if (urgency === 'Immediate' && (certainty === 'Observed' || certainty === 'Likely')) rank -= 1;
+  if (urgency === 'Past' || certainty === 'Unlikely') rank += 1;
+  return ALERT_SEVERITIES[Math.min(Math.max(rank, 0), ALERT_SEVERITIES.length - 1)];
+};
+
+const childrenNamed = (parent: Element, name: string) =>
+  Array.from(parent.children).filter((child) => child.localName === name);
+
+const text = (parent: Element, name: string) => childrenNamed(parent, name)[0]?.textContent?.trim() || undefined;
+
+const texts = (parent: Element, name: string) =>
+  childrenNamed(parent, name).map((child) => child.textContent?.trim() ?? '').filter(Boolean);
+
+const required = (parent: Element, name: string, identifier?: string) => {
+  const value = text(parent, name);
+  if (!value) throw new CapParseError(`Missing required <${name}>`, identifier);
+  return value;
+};
+
+const oneOf = <T extends string>(value: string, allowed: readonly T[], name: string, identifier?: string): T => {
+  if (!allowed.includes(value as T)) throw new CapParseError(`Invalid <${name}> value "${value}"`, identifier);
+  return value as T;
+};
+
+const toIsoDate = (value: string, name: string, identifier?: string) => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new CapParseError(`Invalid <${name}> date "${value}"`, identifier);
+  return new Date(time).toISOString();
+};
+
+/** CAP points are "lat,lon"; GeoJSON positions are [lon, lat]. */
+const parsePoint = (value: string): Position => {
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) throw new CapParseError(`Invalid coordinate pair "${value}"`);
+  return [lng, lat];
+};
+
+const parsePolygon = (value: string): LinearRing => {
+  const ring = value.trim().split(/\s+/).map(parsePoint);
+  if (ring.length < 4) throw new CapParseError('A <polygon> needs at least four points');
+  return ring;
+};
+
+/** "lat,lon radius" with the radius in kilometres. */
+const parseCircle = (value: string): LinearRing => {
+  const [point, radius] = value.trim().split(/\s+/);
+  const [lng, lat] = parsePoint(point);
+  const radiusKm = Number(radius);
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0) throw new CapParseError(`Invalid <circle> radius "${radius}"`);
+  return circleToRing({ lat, lng }, radiusKm);
+};
+
+const areaGeometry = (areas: Element[], identifier: string): Geometry => {
+  // Each language's <info> usually repeats the same areas; keep one copy of each shape.
+  const shapes = new Set(areas.flatMap((area) => [
+    ...texts(area, 'polygon').map((value) => `polygon:${value.trim()}`),
+    ...texts(area, 'circle').map((value) => `circle:${value.trim()}`),
+  ]));
+  const rings = Array.from(shapes, (shape) => {
+    const [kind, value] = shape.split(/:(.*)/s);
+    return kind === 'polygon' ? parsePolygon(value) : parseCircle(value);
+  });
+  if (rings.length === 0) {
+    // Geocode-only areas (e.g. district codes) would need a boundary dataset to place them.
+    throw new CapParseError('No <polygon> or <circle> in any <area>', identifier);
+  }
+  return rings.length === 1
+    ? { type: 'Polygon', coordinates: [rings[0]] }
+    : { type: 'MultiPolygon', coordinates: rings.map((ring) => [ring]) };
+};
+
+/** "hi-IN" → "hi"; CAP defaults a missing <language> to en-US. */
+const languageCode = (value?: string) => (value || 'en-US').split('-')[0].toLowerCase();
+
+const SEVERITIES: readonly CapSeverity[] = ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'];
+const URGENCIES: readonly CapUrgency[] = ['Immediate', 'Expected', 'Future', 'Past', 'Unknown'];
+const CERTAINTIES: readonly CapCertainty[] = ['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'];
+const MSG_TYPES = ['Alert', 'Update', 'Cancel', 'Ack', 'Error'] as const;
+const STATUSES = ['Actual', 'Exercise', 'System', 'Test', 'Draft'] as const;
+
+/**
+ * `<references>` holds space-separated "sender,identifier,sent" triples.
+ * Only the identifier is used; it is what FloodAlert IDs are built from.
+ */
+const referencedIdentifiers = (alert: Element) =>
+  (text(alert, 'references') ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((reference) => reference.split(',')[1])
+    .filter(Boolean);
+
+/** Maps one CAP `<alert>` element. Throws CapParseError when it is not valid CAP 1.2. */
+export const parseCapAlertElement = (alert: Element): CapMessage => {
+  const identifier = required(alert, 'identifier');
+  const sender = required(alert, 'sender', identifier);
+  const sent = toIsoDate(required(alert, 'sent', identifier), 'sent', identifier);
+  const status = oneOf(required(alert, 'status', identifier), STATUSES, 'status', identifier);
+  const msgType = oneOf(required(alert, 'msgType', identifier), MSG_TYPES, 'msgType', identifier);
+  required(alert, 'scope', identifier);
+
+  if (status !== 'Actual') return { kind: 'ignored', reason: `status ${status}` };
+  if (msgType === 'Cancel') return { kind: 'cancel', cancels: referencedIdentifiers(alert) };
+  if (msgType === 'Ack' || msgType === 'Error') return { kind: 'ignored', reason: `msgType ${msgType}` };
+
+  const infos = childrenNamed(alert, 'info');
+  if (infos.length === 0) throw new CapParseError('Missing <info>', identifier);
+
+  const localized: Partial<Record<string, LocalizedAlertText>> = {};
+  let severity: AlertSeverity = 'low';
+  let expiresAt: string | null = null;
+  let senderName: string | undefined;
+  let web: string | undefined;
+
+  for (const info of infos) {
+    const event = required(info, 'event', identifier);
+    const infoSeverity = mapCapSeverity(
+      oneOf(required(info, 'severity', identifier), SEVERITIES, 'severity', identifier),
+      oneOf(required(info, 'urgency', identifier), URGENCIES, 'urgency', identifier),
+      oneOf(required(info, 'certainty', identifier), CERTAINTIES, 'certainty', identifier)
+    );
+    if (ALERT_SEVERITIES.indexOf(infoSeverity) < ALERT_SEVERITIES.indexOf(severity)) severity = infoSeverity;
+
+    const expires = text(info, 'expires');
+    if (expires) {
+      const iso = toIsoDate(expires, 'expires', identifier);
+      if (!expiresAt || iso > expiresAt) expiresAt = iso;
+    }
+
+    senderName ??= text(info, 'senderName');
+    web ??= text(info, 'web');
+
+    const language = languageCode(text(info, 'language'));
+    // Agencies sometimes split one language across several <info> blocks; the first one wins.
+    localized[language] ??= {
+      title: text(info, 'headline') ?? event,
+      description: [text(info, 'description'), text(info, 'instruction')].filter(Boolean).join('\n\n'),
+      areaName: childrenNamed(info, 'area').map((area) => required(area, 'areaDesc', identifier)).join(', '),
+    };
+  }
+
+  const areas = infos.flatMap((info) => childrenNamed(info, 'area'));
+
+  return {
+    kind: 'alert',
+    alert: {
+      id: identifier,
+      severity,
+      issuedAt: sent,
+      expiresAt,
+      geometry: areaGeometry(areas, identifier),
+      source: { name: senderName ?? sender, ...(web ? { url: web } : {}) },
+      text: localized,
+    },
+  };
+};
+
+/**
+ * Parses a CAP document: a single `<alert>`, or any wrapper (feed, bundle)
+ * containing several. Malformed alerts are skipped with a warning; Cancel
+ * messages withdraw the alerts they reference.
+ */
+export const parseCapDocument = (xml: string): FloodAlert[] => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new CapParseError('Alert feed is not well-formed XML');
+  }
+
+  const elements = Array.from(document.getElementsByTagNameNS(CAP_NAMESPACE, 'alert'));
+  if (elements.length === 0) {
+    throw new CapParseError('No CAP 1.2 <alert> elements found');
+  }
+
+  const alerts = new Map<string, FloodAlert>();
+  const cancelled = new Set<string>();
+
+  elements.forEach((element) => {
+    try {
+      const message = parseCapAlertElement(element);
+      if (message.kind === 'alert') {
+        // An Update supersedes the alerts it references.
+        referencedIdentifiers(element).forEach((id) => cancelled.add(id));
+        alerts.set(message.alert.id, message.alert);
+      } else if (message.kind === 'cancel') {
+        message.cancels.forEach((id) => cancelled.add(id));
+      }
+    } catch (error) {
+      console.warn('Skipping invalid CAP alert:', error);
+    }
+  });
+
+  return Array.from(alerts.values()).filter((alert) => !cancelled.has(alert.id));
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AlertFeedError, parseAlertFeed } from './feed';
+
+const NOW = Date.parse('2026-07-14T06:00:00Z');
+
+const alert = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  severity: 'high',
+  issuedAt: '2026-07-14T03:30:00Z',
+  expiresAt: '2026-07-15T03:30:00Z',
+  geometry: { type: 'Point', coordinates: [72.8777, 19.076] },
+  source: { name: 'IMD', url: 'https://mausam.imd.gov.in' },
+  text: { en: { title: 'Heavy rainfall warning', description: 'Water levels are rising.', areaName: 'Mumbai' } },
+  ...overrides,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseAlertFeed', () => {
+  it('keeps valid alerts as they are', () => {
+    const [parsed] = parseAlertFeed({ alerts: [alert('A1')] }, NOW);
+    expect(parsed).toEqual(alert('A1'));
+  });
+
+  it('orders the most severe first, then the newest, whatever the UTC offset', () => {
+    const alerts = parseAlertFeed(
+      {
+        alerts: [
+          alert('medium', { severity: 'medium' }),
+          // 23:30 UTC the day before, though its text sorts after the newer one's.
+          alert('high-older', { issuedAt: '2026-07-14T05:00:00+05:30' }),
+          alert('critical', { severity: 'critical' }),
+          alert('high-newer', { issuedAt: '2026-07-14T01:00:00Z' }),
+        ],
+      },
+      NOW
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['critical', 'high-newer', 'high-older', 'medium']);
+  });
+
+  it('drops expired alerts and keeps those without an expiry', () => {
+    const alerts = parseAlertFeed(
+      { alerts: [alert('expired', { expiresAt: '2026-07-14T05:00:00Z' }), alert('open', { expiresAt: null })] },
+      NOW
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['open']);
+  });
+
+  it('skips malformed alerts and keeps the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const alerts = parseAlertFeed(
+      {
+        alerts: [
+          alert('bad-severity', { severity: 'catastrophic' }),
+          alert('bad-date', { issuedAt: 'yesterday' }),
+          // An unclosed ring has too few positions.
+          alert('bad-ring', { geometry: { type: 'Polygon', coordinates: [[[72.8, 19], [73, 19], [72.8, 19]]] } }),
+          alert('bad-position', { geometry: { type: 'Point', coordinates: [19.076, 272.8777] } }),
+          'not an alert',
+          alert('A1'),
+        ],
+      },
+      NOW
+    );
+    expect(alerts.map((item) => item.id)).toEqual(['A1']);
+    expect(warn).toHaveBeenCalledTimes(5);
+  });
+
+  it('rejects payloads that are not a feed', () => {
+    expect(() => parseAlertFeed(null, NOW)).toThrow(AlertFeedError);
+    expect(() => parseAlertFeed([alert('A1')], NOW)).toThrow(AlertFeedError);
+    expect(() => parseAlertFeed({ alerts: 'none' }, NOW)).toThrow(AlertFeedError);
+  });
+});
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { ALERT_SEVERITIES, isAlertActive, severityRank, type FloodAlert } from './types';
+import { parseCapDocument } from './cap';
+
+const localizedTextSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  areaName: z.string(),
+});
+
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+// A closed ring needs at least four positions (first and last identical).
+const ringSchema = z.array(positionSchema).min(4);
+
+const geometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Point'), coordinates: positionSchema }),
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(ringSchema).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(ringSchema).min(1)).min(1) }),
+]);
+
+const alertSchema = z.object({
+  id: z.string(),
+  severity: z.enum(ALERT_SEVERITIES),
+  issuedAt: z.string().datetime({ offset: true }),
+  expiresAt: z.string().datetime({ offset: true }).nullable(),
+  geometry: geometrySchema,
+  source: z.object({
+    name: z.string(),
+    url: z.string().url().optional(),
+  }),
+  text: z.record(localizedTextSchema),
+});
+
+const feedSchema = z.object({
+  alerts: z.array(z.unknown()),
+});
+
+export class AlertFeedError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'AlertFeedError';
+  }
+}
+
+export const getAlertFeedUrl = () => import.meta.env.VITE_ALERTS_URL || '/api/alerts';
+
+/** Most severe first, then newest first. Issue times may carry different UTC offsets, so they are compared as instants. */
+export const compareAlerts = (a: FloodAlert, b: FloodAlert) =>
+  severityRank(a.severity) - severityRank(b.severity) || Date.parse(b.issuedAt) - Date.parse(a.issuedAt);
+
+/**
+ * Parses a feed payload of the shape `{ alerts: FloodAlert[] }`. Individual
+ * malformed alerts are dropped rather than failing the whole feed, so one bad
+ * entry from an upstream agency cannot hide every other warning.
+ */
+export const parseAlertFeed = (payload: unknown, now = Date.now()): FloodAlert[] => {
+  const feed = feedSchema.safeParse(payload);
+  if (!feed.success) {
+    throw new AlertFeedError('Alert feed response is not in the expected format');
+  }
+
+  return feed.data.alerts
+    .flatMap((item) => {
+      const parsed = alertSchema.safeParse(item);
+      if (!parsed.success) {
+        console.warn('Skipping malformed alert:', parsed.error.issues);
+        return [];
+      }
+      return [parsed.data as FloodAlert];
+    })
+    .filter((alert) => isAlertActive(alert, now))
+    .sort(compareAlerts);
+};
+
+const isXml = (contentType: string | null) => /[/+]xml\b/.test(contentType ?? '');
+
+/** Fetches the feed, accepting either the app's JSON format or CAP 1.2 XML. */
+export const fetchAlerts = async (signal?: AbortSignal): Promise<FloodAlert[]> => {
+  const response = await fetch(getAlertFeedUrl(), {
+    signal,
+    headers: { Accept: 'application/json, application/cap+xml;q=0.9, application/xml;q=0.8' },
+  });
+  if (!response.ok) {
+    throw new AlertFeedError(`Alert feed request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  if (isXml(response.headers.get('Content-Type'))) {
+    const now = Date.now();
+    return parseCapDocument(await response.text())
+      .filter((alert) => isAlertActive(alert, now))
+      .sort(compareAlerts);
+  }
+  return parseAlertFeed(await response.json());
+};
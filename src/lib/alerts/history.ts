@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { ALERT_SEVERITIES, type FloodAlert } from './types';
+
+const receivedAlertSchema = z.object({
+  id: z.string(),
+  severity: z.enum(ALERT_SEVERITIES),
+  receivedAt: z.string(),
+});
+
+export type ReceivedAlert = z.infer<typeof receivedAlertSchema>;
+
+const MAX_ENTRIES = 500;
+
+/** Every distinct alert this device has received from the feed, newest first. */
+export const alertHistory = createPersistedStore('alert-history', z.array(receivedAlertSchema), []);
+
+/** How many distinct alerts this device has ever received; see `submittedReportCount`. */
+export const receivedAlertCount = createPersistedStore(
+  'alert-count',
+  z.number().int().min(0),
+  alertHistory.getSnapshot().length
+);
+
+export const recordReceivedAlerts = (alerts: FloodAlert[]) => {
+  const known = new Set(alertHistory.getSnapshot().map((entry) => entry.id));
+  const receivedAt = new Date().toISOString();
+  const fresh = alerts
+    .filter((alert) => !known.has(alert.id))
+    .map((alert) => ({ id: alert.id, severity: alert.severity, receivedAt }));
+  if (fresh.length === 0) return;
+  alertHistory.update((entries) => [...fresh, ...entries].slice(0, MAX_ENTRIES));
+  receivedAlertCount.update((count) => count + fresh.length);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREFERENCES, type Preferences } from '@/lib/preferences';
+import { notificationThreshold, shouldNotifyAlert } from './notifications';
+import type { AlertSeverity, FloodAlert } from './types';
+
+const KURLA = { lat: 19.0653, lng: 72.8793 };
+const PUNE = { lat: 18.5204, lng: 73.8567 };
+
+/** A point alert at Kurla. */
+const alert = (severity: AlertSeverity): FloodAlert => ({
+  id: severity,
+  severity,
+  issuedAt: '2026-07-14T03:30:00Z',
+  expiresAt: null,
+  geometry: { type: 'Point', coordinates: [KURLA.lng, KURLA.lat] },
+  source: { name: 'IMD' },
+  text: {},
+});
+
+const preferences = (overrides: Partial<Preferences> = {}): Preferences => ({ ...DEFAULT_PREFERENCES, ...overrides });
+
+describe('shouldNotifyAlert', () => {
+  it('notifies at or above the chosen severity', () => {
+    const highAndUp = preferences({ alertThreshold: 'high' });
+    expect(shouldNotifyAlert(alert('critical'), highAndUp, KURLA)).toBe(true);
+    expect(shouldNotifyAlert(alert('high'), highAndUp, KURLA)).toBe(true);
+    expect(shouldNotifyAlert(alert('medium'), highAndUp, KURLA)).toBe(false);
+    expect(shouldNotifyAlert(alert('low'), preferences({ alertThreshold: 'low' }), KURLA)).toBe(true);
+  });
+
+  it('lets only critical alerts through while notifications are off and emergency alerts on', () => {
+    const emergencyOnly = preferences({ notifications: false, alertThreshold: 'low' });
+    expect(shouldNotifyAlert(alert('critical'), emergencyOnly, KURLA)).toBe(true);
+    expect(shouldNotifyAlert(alert('high'), emergencyOnly, KURLA)).toBe(false);
+  });
+
+  it('stays quiet when both are off', () => {
+    const off = preferences({ notifications: false, emergencyAlerts: false });
+    expect(shouldNotifyAlert(alert('critical'), off, KURLA)).toBe(false);
+  });
+
+  it('ignores alerts far from the user, however severe', () => {
+    expect(shouldNotifyAlert(alert('critical'), preferences(), PUNE)).toBe(false);
+  });
+
+  it('notifies regardless of distance while the location is unknown', () => {
+    expect(shouldNotifyAlert(alert('high'), preferences(), null)).toBe(true);
+  });
+});
+
+describe('notificationThreshold', () => {
+  it('is the chosen severity while notifications are on', () => {
+    expect(notificationThreshold(preferences({ alertThreshold: 'medium' }))).toBe('medium');
+    expect(notificationThreshold(preferences({ alertThreshold: 'low', emergencyAlerts: false }))).toBe('low');
+  });
+
+  it('is critical while only emergency alerts are on', () => {
+    expect(notificationThreshold(preferences({ notifications: false, alertThreshold: 'low' }))).toBe('critical');
+  });
+
+  it('is null when the user wants no alerts pushed', () => {
+    expect(notificationThreshold(preferences({ notifications: false, emergencyAlerts: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import type { Language, TranslateFn } from '@/i18n';
+import type { Coordinates } from '@/lib/geo';
+import type { Preferences } from '@/lib/preferences';
+import { alertDistanceKm } from './proximity';
+import { localizeAlert, severityRank, type AlertSeverity, type FloodAlert } from './types';
+
+/** Alerts further away than this do not notify, however severe. */
+export const NOTIFICATION_RADIUS_KM = 50;
+
+export const meetsThreshold = (severity: AlertSeverity, threshold: AlertSeverity) =>
+  severityRank(severity) <= severityRank(threshold);
+
+/**
+ * Whether a newly received alert should interrupt the user: at or above their chosen
+ * severity while notifications are on (critical alerts still get through while
+ * emergency alerts are on), and within range of their location when it is known.
+ */
+export const shouldNotifyAlert = (alert: FloodAlert, preferences: Preferences, location: Coordinates | null) => {
+  const wanted =
+    (preferences.notifications && meetsThreshold(alert.severity, preferences.alertThreshold)) ||
+    (preferences.emergencyAlerts && alert.severity === 'critical');
+  return wanted && (!location || alertDistanceKm(alert, location) <= NOTIFICATION_RADIUS_KM);
+};
+
+/** The least severe alert the user wants pushed, or null when they want none. */
+export const notificationThreshold = (preferences: Preferences): AlertSeverity | null => {
+  if (preferences.notifications) return preferences.alertThreshold;
+  return preferences.emergencyAlerts ? 'critical' : null;
+};
+
+/** Where a notification for this alert should take the user. */
+export const alertDeepLink = (alertId: string) => `/?tab=map&alert=${encodeURIComponent(alertId)}`;
+
+/** Critical alerts sound the siren and are read aloud, when the user has not turned that off. */
+export const shouldAnnounceAlert = (alert: FloodAlert, preferences: Preferences) =>
+  preferences.alertSound && alert.severity === 'critical';
+
+/** What a readout of this alert says, in the order it is said. */
+export const alertReadout = (alert: FloodAlert, language: Language, t: TranslateFn) => {
+  const { title, areaName, description } = localizeAlert(alert, language);
+  return [
+    `${t(`alerts.severity.${alert.severity}`)}: ${title}`,
+    areaName,
+    description,
+    `${t('alerts.issuedBy')}: ${alert.source.name}`,
+  ];
+};
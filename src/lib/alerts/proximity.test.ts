@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { LinearRing } from '@/lib/geo';
+import { alertsNear } from './proximity';
+import type { AlertSeverity, FloodAlert } from './types';
+
+const KURLA = { lat: 19.0653, lng: 72.8793 };
+
+/** A square of `size` degrees with its south-west corner at (`lat`, `lng`). */
+const square = (lat: number, lng: number, size: number): LinearRing => [
+  [lng, lat],
+  [lng + size, lat],
+  [lng + size, lat + size],
+  [lng, lat + size],
+  [lng, lat],
+];
+
+const alert = (id: string, severity: AlertSeverity, ring: LinearRing): FloodAlert => ({
+  id,
+  severity,
+  issuedAt: '2026-07-14T03:30:00Z',
+  expiresAt: null,
+  geometry: { type: 'Polygon', coordinates: [ring] },
+  source: { name: 'IMD' },
+  text: {},
+});
+
+// Around Kurla, about 20 km north of it, and in Pune, about 120 km away.
+const here = alert('here', 'medium', square(19, 72.8, 0.2));
+const north = alert('north', 'low', square(19.25, 72.8, 0.2));
+const pune = alert('pune', 'critical', square(18.45, 73.8, 0.15));
+const alerts = [north, pune, here];
+
+const ids = (results: ReturnType<typeof alertsNear>) => results.map(({ alert: item }) => item.id);
+
+describe('alertsNear', () => {
+  it('measures zero inside an alert area and the distance to the edge outside it', () => {
+    const results = alertsNear(alerts, KURLA);
+    const distance = (id: string) => results.find(({ alert: item }) => item.id === id)?.distanceKm;
+    expect(distance('here')).toBe(0);
+    expect(distance('north')).toBeCloseTo(20.5, 0);
+    expect(distance('pune')).toBeGreaterThan(100);
+  });
+
+  it('sorts by severity, then distance, by default', () => {
+    expect(ids(alertsNear(alerts, KURLA))).toEqual(['pune', 'here', 'north']);
+  });
+
+  it('sorts by distance, then severity, when asked', () => {
+    expect(ids(alertsNear(alerts, KURLA, { sortBy: 'distance' }))).toEqual(['here', 'north', 'pune']);
+  });
+
+  it('drops alerts beyond the radius', () => {
+    expect(ids(alertsNear(alerts, KURLA, { radiusKm: 50 }))).toEqual(['here', 'north']);
+  });
+
+  it('keeps every alert, by severity and without distances, when the location is unknown', () => {
+    const results = alertsNear(alerts, null, { radiusKm: 50, sortBy: 'distance' });
+    expect(ids(results)).toEqual(['pune', 'here', 'north']);
+    expect(results.every(({ distanceKm }) => distanceKm === null)).toBe(true);
+  });
+});
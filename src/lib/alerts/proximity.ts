@@ -0,0 +1,48 @@
+import { distanceToGeometryKm, geometryContains, type Coordinates } from '@/lib/geo';
+import { isAlertActive, severityRank, type FloodAlert } from './types';
+
+export interface AlertWithDistance {
+  alert: FloodAlert;
+  /** `null` when the user's location is unknown. */
+  distanceKm: number | null;
+}
+
+export type AlertSortOrder = 'severity' | 'distance';
+
+/** Zero when the location is inside the alert's warning area. */
+export const alertDistanceKm = (alert: FloodAlert, location: Coordinates) =>
+  distanceToGeometryKm(alert.geometry, location);
+
+/** Active area alerts whose polygon contains `location`, most severe first. */
+export const alertsContaining = (alerts: FloodAlert[], location: Coordinates, now = Date.now()) =>
+  alerts
+    .filter((alert) => isAlertActive(alert, now) && geometryContains(alert.geometry, location))
+    .sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+
+/**
+ * Attaches distances, drops alerts outside `radiusKm` (when both a radius and a
+ * location are known) and sorts. Alerts with an unknown distance sort last.
+ */
+export const alertsNear = (
+  alerts: FloodAlert[],
+  location: Coordinates | null,
+  { radiusKm = null, sortBy = 'severity' }: { radiusKm?: number | null; sortBy?: AlertSortOrder } = {}
+): AlertWithDistance[] => {
+  const withDistance = alerts.map((alert) => ({
+    alert,
+    distanceKm: location ? alertDistanceKm(alert, location) : null,
+  }));
+
+  const inRange = radiusKm === null || !location
+    ? withDistance
+    : withDistance.filter(({ distanceKm }) => distanceKm !== null && distanceKm <= radiusKm);
+
+  const byDistance = (a: AlertWithDistance, b: AlertWithDistance) =>
+    (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+  const bySeverity = (a: AlertWithDistance, b: AlertWithDistance) =>
+    severityRank(a.alert.severity) - severityRank(b.alert.severity);
+
+  return [...inRange].sort((a, b) =>
+    sortBy === 'distance' ? byDistance(a, b) || bySeverity(a, b) : bySeverity(a, b) || byDistance(a, b)
+  );
+};
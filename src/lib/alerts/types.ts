@@ -0,0 +1,45 @@
+import { representativePoint, type Coordinates, type Geometry } from '@/lib/geo';
+
+/** Ordered from most to least severe. */
+export const ALERT_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+/** A point for localized warnings, or the (multi)polygon of the warned area. */
+export type AlertGeometry = Geometry;
+
+export interface AlertSource {
+  /** Issuing agency, e.g. "IMD" or "BMC Disaster Management". */
+  name: string;
+  url?: string;
+}
+
+export interface LocalizedAlertText {
+  title: string;
+  description: string;
+  /** Human-readable name of the affected area. */
+  areaName: string;
+}
+
+export interface FloodAlert {
+  id: string;
+  severity: AlertSeverity;
+  /** ISO 8601 timestamps. */
+  issuedAt: string;
+  expiresAt: string | null;
+  geometry: AlertGeometry;
+  source: AlertSource;
+  /** Keyed by language code; `en` is expected but not guaranteed. */
+  text: Partial<Record<string, LocalizedAlertText>>;
+}
+
+export const severityRank = (severity: AlertSeverity) => ALERT_SEVERITIES.indexOf(severity);
+
+export const localizeAlert = (alert: FloodAlert, language: string): LocalizedAlertText =>
+  alert.text[language] ?? alert.text.en ?? Object.values(alert.text)[0] ?? { title: '', description: '', areaName: '' };
+
+/** Where to pin the alert: its point, or the centre of its warning area. */
+export const alertCoordinates = (alert: FloodAlert): Coordinates => representativePoint(alert.geometry);
+
+export const isAlertActive = (alert: FloodAlert, now = Date.now()) =>
+  !alert.expiresAt || Date.parse(alert.expiresAt) > now;
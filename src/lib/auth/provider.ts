@@ -0,0 +1,161 @@
+import { AuthError, authSessionSchema, type AuthProvider, type AuthSession, type OtpChallenge } from './types';
+
+const OTP_LENGTH = 6;
+const OTP_TTL_MS = 5 * 60_000;
+const RESEND_COOLDOWN_MS = 30_000;
+const MAX_VERIFY_ATTEMPTS = 5;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60_000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface MockChallengeState {
+  code: string;
+  attempts: number;
+  expiresAt: number;
+}
+
+/**
+ * Issues codes locally instead of sending SMS, for development and tests only: anyone can
+ * sign in as any number with it. The code is returned on the challenge as `debugCode`;
+ * pass `fixedCode` to make it predictable.
+ */
+export class MockAuthProvider implements AuthProvider {
+  private challenges = new Map<string, MockChallengeState>();
+
+  constructor(private readonly options: { fixedCode?: string; latencyMs?: number } = {}) {}
+
+  async requestOtp(phone: string): Promise<OtpChallenge> {
+    await delay(this.options.latencyMs ?? 400);
+    const code = this.options.fixedCode
+      ?? String(Math.floor(Math.random() * 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, '0');
+    const now = Date.now();
+    const id = crypto.randomUUID();
+    this.challenges.set(id, { code, attempts: 0, expiresAt: now + OTP_TTL_MS });
+    return {
+      id,
+      phone,
+      expiresAt: new Date(now + OTP_TTL_MS).toISOString(),
+      resendAvailableAt: new Date(now + RESEND_COOLDOWN_MS).toISOString(),
+      debugCode: code,
+    };
+  }
+
+  async verifyOtp(challenge: OtpChallenge, code: string): Promise<AuthSession> {
+    await delay(this.options.latencyMs ?? 400);
+    const state = this.challenges.get(challenge.id);
+    if (!state || Date.now() > state.expiresAt) {
+      this.challenges.delete(challenge.id);
+      throw new AuthError('OTP expired', 'expired');
+    }
+    if (state.attempts >= MAX_VERIFY_ATTEMPTS) throw new AuthError('Too many attempts', 'too_many_attempts');
+    state.attempts += 1;
+    if (code !== state.code) throw new AuthError('Incorrect OTP', 'invalid_code');
+
+    this.challenges.delete(challenge.id);
+    const now = Date.now();
+    return {
+      token: `mock-${crypto.randomUUID()}`,
+      userId: `user-${challenge.phone.slice(-10)}`,
+      phone: challenge.phone,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    };
+  }
+
+  async signOut() {}
+}
+
+const errorCodeForStatus = (status: number) => {
+  switch (status) {
+    case 400: return 'invalid_phone' as const;
+    case 401: return 'invalid_code' as const;
+    case 410: return 'expired' as const;
+    case 429: return 'too_many_attempts' as const;
+    default: return 'network' as const;
+  }
+};
+
+/**
+ * Talks to a remote auth API:
+ *   POST /auth/otp          { phone }              → OtpChallenge
+ *   POST /auth/otp/verify   { challengeId, code }  → AuthSession
+ *   POST /auth/logout       Authorization: Bearer <token>
+ * Failures map to AuthError codes by status: 400 invalid phone, 401 wrong code,
+ * 410 expired challenge, 429 rate limited.
+ */
+export class HttpAuthProvider implements AuthProvider {
+  constructor(private readonly baseUrl: string) {}
+
+  private async post(path: string, body?: unknown, token?: string) {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new AuthError(error instanceof Error ? error.message : 'Network error', 'network');
+    }
+    if (!response.ok) {
+      throw new AuthError(`Auth API request failed: ${response.status} ${response.statusText}`, errorCodeForStatus(response.status));
+    }
+    return response;
+  }
+
+  async requestOtp(phone: string): Promise<OtpChallenge> {
+    const response = await this.post('/auth/otp', { phone });
+    return response.json();
+  }
+
+  async verifyOtp(challenge: OtpChallenge, code: string): Promise<AuthSession> {
+    const response = await this.post('/auth/otp/verify', { challengeId: challenge.id, code });
+    return authSessionSchema.parse(await response.json());
+  }
+
+  async signOut(session: AuthSession) {
+    await this.post('/auth/logout', undefined, session.token);
+  }
+}
+
+/** Stands in for a missing backend in production builds: every sign-in attempt fails. */
+export class UnavailableAuthProvider implements AuthProvider {
+  async requestOtp(): Promise<OtpChallenge> {
+    throw new AuthError('No auth API is configured', 'unavailable');
+  }
+
+  async verifyOtp(): Promise<AuthSession> {
+    throw new AuthError('No auth API is configured', 'unavailable');
+  }
+
+  async signOut() {}
+}
+
+let authProvider: AuthProvider | null = null;
+
+/**
+ * Uses the HTTP backend when `VITE_AUTH_API_URL` is set. Without it, development and test
+ * builds use the mock provider; production builds refuse every sign-in rather than fall
+ * back to a provider that would let anyone in.
+ */
+export const getAuthProvider = (): AuthProvider => {
+  if (!authProvider) {
+    const apiUrl = import.meta.env.VITE_AUTH_API_URL;
+    if (apiUrl) {
+      authProvider = new HttpAuthProvider(apiUrl);
+    } else if (import.meta.env.DEV) {
+      authProvider = new MockAuthProvider();
+    } else {
+      console.error('VITE_AUTH_API_URL is not set; sign-in is disabled in this build.');
+      authProvider = new UnavailableAuthProvider();
+    }
+  }
+  return authProvider;
+};
+
+export const setAuthProvider = (provider: AuthProvider) => {
+  authProvider = provider;
+};
@@ -0,0 +1,27 @@
+import { createPersistedStore } from '@/lib/persistedStore';
+import { profileStore } from '@/lib/profile';
+import { getAuthProvider } from './provider';
+import { authSessionSchema, type AuthSession } from './types';
+
+export const sessionStore = createPersistedStore('session', authSessionSchema.nullable(), null);
+
+export const isSessionActive = (session: AuthSession | null, now = Date.now()): session is AuthSession =>
+  !!session && Date.parse(session.expiresAt) > now;
+
+export const startSession = (session: AuthSession) => {
+  sessionStore.set(session);
+  // The verified number is the best default for the profile's contact number.
+  profileStore.update((profile) => (profile.phone ? profile : { ...profile, phone: session.phone }));
+};
+
+/** Forgets the session locally first, so signing out works offline; the server is told on a best-effort basis. */
+export const endSession = async () => {
+  const session = sessionStore.getSnapshot();
+  sessionStore.set(null);
+  if (!session) return;
+  try {
+    await getAuthProvider().signOut(session);
+  } catch (error) {
+    console.warn('Sign-out request failed:', error);
+  }
+};
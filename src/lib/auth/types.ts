@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const authSessionSchema = z.object({
+  token: z.string(),
+  userId: z.string(),
+  /** E.164, always +91. */
+  phone: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+/** A pending OTP verification for one phone number. */
+export interface OtpChallenge {
+  id: string;
+  phone: string;
+  expiresAt: string;
+  /** Earliest ISO time at which another code may be requested. */
+  resendAvailableAt: string;
+  /** Only set by the mock provider, so the code can be shown during development. */
+  debugCode?: string;
+}
+
+/** `unavailable`: no auth backend is configured in this build, so nobody can sign in. */
+export type AuthErrorCode = 'invalid_phone' | 'invalid_code' | 'expired' | 'too_many_attempts' | 'network' | 'unavailable';
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly code: AuthErrorCode) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthProvider {
+  /** Sends a one-time code to `phone` (E.164). */
+  requestOtp(phone: string): Promise<OtpChallenge>;
+  verifyOtp(challenge: OtpChallenge, code: string): Promise<AuthSession>;
+  signOut(session: AuthSession): Promise<void>;
+}
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callCount, callLog, recordCall } from './calls';
+import { STALE_AFTER_MS, locationService, type LocationFix } from './location';
+
+const NOW = new Date('2026-07-14T09:30:00+05:30');
+
+const withFix = (fix: LocationFix | null) =>
+  vi.spyOn(locationService, 'getSnapshot').mockReturnValue({ fix, error: null, locating: false });
+
+const fix = (ageMs: number): LocationFix => ({ lat: 19.0653, lng: 72.8793, accuracy: 25, timestamp: NOW.getTime() - ageMs });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  callLog.set([]);
+  callCount.set(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('recordCall', () => {
+  it('logs the call, newest first, with where the user was', () => {
+    withFix(fix(30_000));
+    recordCall('1077', 'Disaster helpline');
+    vi.advanceTimersByTime(60_000);
+    const entry = recordCall('100', 'Police');
+
+    expect(callLog.getSnapshot()).toEqual([entry, expect.objectContaining({ number: '1077' })]);
+    expect(entry).toMatchObject({
+      number: '100',
+      name: 'Police',
+      calledAt: '2026-07-14T04:01:00.000Z',
+      location: { lat: 19.0653, lng: 72.8793, accuracy: 25 },
+    });
+  });
+
+  it('leaves out a stale fix, which may be from somewhere else entirely', () => {
+    withFix(fix(STALE_AFTER_MS + 1));
+    expect(recordCall('1077', 'Disaster helpline').location).toBeNull();
+  });
+
+  it('logs calls made before any fix has arrived', () => {
+    withFix(null);
+    expect(recordCall('1077', 'Disaster helpline').location).toBeNull();
+  });
+
+  it('counts every call, even once the oldest have left the log', () => {
+    withFix(null);
+    for (let call = 0; call < 205; call++) recordCall('108', 'Ambulance');
+    expect(callLog.getSnapshot()).toHaveLength(200);
+    expect(callCount.getSnapshot()).toBe(205);
+  });
+});
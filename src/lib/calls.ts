@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { isFixStale, locationService } from '@/lib/location';
+import { createPersistedStore } from '@/lib/persistedStore';
+
+const callLocationSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+  /** Metres, as reported with the fix. */
+  accuracy: z.number(),
+});
+
+const callLogEntrySchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  /** Display name of the service or person called. */
+  name: z.string(),
+  calledAt: z.string(),
+  /** Where the user was, if known; entries from before locations were recorded have none. */
+  location: callLocationSchema.nullable().default(null),
+});
+
+export type CallLogEntry = z.infer<typeof callLogEntrySchema>;
+
+const MAX_ENTRIES = 200;
+
+/** Calls to emergency services in the directory started from the app, newest first. Calls to trusted contacts are not logged. */
+export const callLog = createPersistedStore('call-log', z.array(callLogEntrySchema), []);
+
+/** How many emergency calls have ever been started from the app; see `submittedReportCount`. */
+export const callCount = createPersistedStore('call-count', z.number().int().min(0), callLog.getSnapshot().length);
+
+/**
+ * Logs a call attempt. The browser cannot tell whether the call connected, so this is
+ * recorded when the dialler is opened, with the position of the device unless the last
+ * fix is stale and could be from somewhere else entirely.
+ */
+export const recordCall = (number: string, name: string): CallLogEntry => {
+  const { fix } = locationService.getSnapshot();
+  const entry: CallLogEntry = {
+    id: crypto.randomUUID(),
+    number,
+    name,
+    calledAt: new Date().toISOString(),
+    location: fix && !isFixStale(fix) ? { lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy } : null,
+  };
+  callLog.update((entries) => [entry, ...entries].slice(0, MAX_ENTRIES));
+  callCount.update((count) => count + 1);
+  return entry;
+};
@@ -0,0 +1,41 @@
+export type CameraError = 'denied' | 'unavailable';
+
+/**
+ * Without `getUserMedia` (old WebViews, pages not served over HTTPS) the report form falls
+ * back to file inputs with the `capture` attribute, which hand over to the phone's camera app.
+ */
+export const isCameraSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export class CameraAccessError extends Error {
+  constructor(message: string, public readonly reason: CameraError) {
+    super(message);
+    this.name = 'CameraAccessError';
+  }
+}
+
+/** The rear camera where there is one: the street, not the reporter's face. */
+export const openCamera = async (): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    });
+  } catch (error) {
+    const denied = error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+    throw new CameraAccessError(error instanceof Error ? error.message : String(error), denied ? 'denied' : 'unavailable');
+  }
+};
+
+/**
+ * Asked for only when a clip starts recording, so taking photos never prompts for the
+ * microphone. Null when refused; the clip is then recorded without sound.
+ */
+export const openMicrophone = async (): Promise<MediaStream | null> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+  } catch {
+    return null;
+  }
+};
+
+export const stopStream = (stream: MediaStream | null) => stream?.getTracks().forEach((track) => track.stop());
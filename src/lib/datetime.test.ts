@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { formatRelativeTime } from './datetime';
+
+const NOW = Date.parse('2026-07-14T06:00:00Z');
+
+describe('formatRelativeTime', () => {
+  it('measures from the given time rather than the clock', () => {
+    expect(formatRelativeTime(NOW - 15 * 60_000, 'en', NOW)).toBe('15 minutes ago');
+    expect(formatRelativeTime(NOW + 2 * 3_600_000, 'en', NOW)).toBe('in 2 hours');
+  });
+
+  it('accepts ISO strings and dates', () => {
+    expect(formatRelativeTime('2026-07-13T06:00:00Z', 'en', NOW)).toBe('1 day ago');
+    expect(formatRelativeTime(new Date(NOW - 30_000), 'en', NOW)).toBe('30 seconds ago');
+  });
+
+  it('uses the date-fns locale where there is one', () => {
+    expect(formatRelativeTime(NOW - 5 * 60_000, 'hi', NOW)).toBe('५ मिनट पहले');
+  });
+
+  it('falls back to Intl for Marathi, which date-fns lacks', () => {
+    const marathi = new Intl.RelativeTimeFormat('mr', { numeric: 'auto' });
+    expect(formatRelativeTime(NOW - 3 * 3_600_000, 'mr', NOW)).toBe(marathi.format(-3, 'hour'));
+    expect(formatRelativeTime(NOW - 45_000, 'mr', NOW)).toBe(marathi.format(-45, 'second'));
+  });
+
+  it('rounds the Intl fallback the same way into the past and the future', () => {
+    const marathi = new Intl.RelativeTimeFormat('mr', { numeric: 'auto' });
+    expect(formatRelativeTime(NOW - 90 * 60_000, 'mr', NOW)).toBe(marathi.format(-2, 'hour'));
+    expect(formatRelativeTime(NOW + 90 * 60_000, 'mr', NOW)).toBe(marathi.format(2, 'hour'));
+  });
+});
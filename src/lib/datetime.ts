@@ -0,0 +1,28 @@
+import { formatDistanceStrict, type Locale } from 'date-fns';
+import { bn, enIN, gu, hi, kn, ta, te } from 'date-fns/locale';
+
+const dateFnsLocales: Partial<Record<string, Locale>> = { en: enIN, hi, bn, gu, kn, ta, te };
+
+/**
+ * "15 minutes ago" in the given language. date-fns has no Marathi locale, so
+ * languages it lacks fall back to the browser's Intl.RelativeTimeFormat.
+ */
+export const formatRelativeTime = (date: Date | string | number, language: string, now = Date.now()) => {
+  const value = new Date(date);
+  const locale = dateFnsLocales[language];
+  if (locale) {
+    return formatDistanceStrict(value, now, { addSuffix: true, locale });
+  }
+
+  const seconds = Math.round((value.getTime() - now) / 1000);
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['day', 86_400],
+    ['hour', 3_600],
+    ['minute', 60],
+    ['second', 1],
+  ];
+  const [unit, size] = units.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds) ?? units[units.length - 1];
+  // Rounded by magnitude, so 90 minutes ago reads "2 hours ago" just as 90 minutes ahead reads "in 2 hours".
+  const amount = Math.sign(seconds) * Math.round(Math.abs(seconds) / size);
+  return new Intl.RelativeTimeFormat(language, { numeric: 'auto' }).format(amount, unit);
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUNDLED_DIRECTORY,
+  contactsForPlace,
+  footerHelplines,
+  type ContactDirectory,
+  type DirectoryContact,
+} from './emergencyContacts';
+
+const contact = (id: string, number: string, category: string): DirectoryContact => ({
+  id,
+  number,
+  category,
+  name: { en: id },
+});
+
+const directory: ContactDirectory = {
+  updatedAt: '2026-10-19',
+  national: [contact('ndma', '1077', 'disaster'), contact('police', '100', 'police'), contact('ambulance', '108', 'ambulance')],
+  states: {
+    Maharashtra: {
+      contacts: [contact('state-eoc', '1070', 'disaster'), contact('state-police', '100', 'police')],
+      districts: {
+        'Mumbai Suburban': [contact('bmc', '1916', 'municipal'), contact('district-eoc', '1077', 'disaster')],
+      },
+    },
+  },
+};
+
+const ids = (contacts: { id: string }[]) => contacts.map((item) => item.id);
+
+describe('contactsForPlace', () => {
+  it('lists the district, then the state, then the national numbers', () => {
+    const contacts = contactsForPlace(directory, { district: 'Mumbai Suburban', state: 'Maharashtra' });
+    expect(contacts.map(({ id, scope }) => [id, scope])).toEqual([
+      ['bmc', 'district'],
+      ['district-eoc', 'district'],
+      ['state-eoc', 'state'],
+      ['state-police', 'state'],
+      ['ambulance', 'national'],
+    ]);
+  });
+
+  it('shows a number listed at several levels once, at the most local', () => {
+    const contacts = contactsForPlace(directory, { district: 'Pune', state: 'Maharashtra' });
+    expect(ids(contacts)).toEqual(['state-eoc', 'state-police', 'ndma', 'ambulance']);
+  });
+
+  it('compares numbers by their digits alone', () => {
+    const withLandline: ContactDirectory = {
+      ...directory,
+      national: [...directory.national, contact('ndma-control-room', '011-26701700', 'disaster')],
+      states: { Delhi: { contacts: [contact('delhi-copy', '011 2670 1700', 'disaster')], districts: {} } },
+    };
+    const contacts = contactsForPlace(withLandline, { district: 'New Delhi', state: 'Delhi' });
+    expect(ids(contacts)).toEqual(['delhi-copy', 'ndma', 'police', 'ambulance']);
+  });
+
+  it('matches names regardless of case, punctuation and a "District" suffix', () => {
+    const contacts = contactsForPlace(directory, { district: 'mumbai-suburban district', state: 'MAHARASHTRA' });
+    expect(contacts[0].id).toBe('bmc');
+  });
+
+  it('lists only the national numbers for an unknown or unlisted place', () => {
+    expect(ids(contactsForPlace(directory, null))).toEqual(['ndma', 'police', 'ambulance']);
+    expect(ids(contactsForPlace(directory, { district: 'Patna', state: 'Bihar' }))).toEqual(['ndma', 'police', 'ambulance']);
+  });
+
+  it('finds the municipal control room in the bundled directory', () => {
+    const contacts = contactsForPlace(BUNDLED_DIRECTORY, { district: 'Mumbai Suburban', state: 'Maharashtra' });
+    expect(contacts[0]).toMatchObject({ number: '1916', scope: 'district' });
+  });
+});
+
+describe('footerHelplines', () => {
+  it('picks the two most local disaster or municipal lines', () => {
+    const contacts = contactsForPlace(directory, { district: 'Mumbai Suburban', state: 'Maharashtra' });
+    expect(ids(footerHelplines(contacts))).toEqual(['bmc', 'district-eoc']);
+  });
+
+  it('falls back to the national helplines', () => {
+    const contacts = contactsForPlace(BUNDLED_DIRECTORY, null);
+    expect(footerHelplines(contacts).map((item) => item.number)).toEqual(['1077', '011-26701700']);
+  });
+});
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import bundledDirectory from '@/data/emergency-contacts.json';
+import type { PlaceName } from '@/lib/geocoding';
+
+/** Text in as many UI languages as are known; English is required and used for the rest. */
+const localizedTextSchema = z.object({ en: z.string() }).catchall(z.string());
+
+const contactSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  /** Picks the icon and colour. Unknown categories are shown with a generic phone icon. */
+  category: z.string(),
+  name: localizedTextSchema,
+  description: localizedTextSchema.optional(),
+});
+
+const stateSchema = z.object({
+  /** Numbers for the whole state, e.g. its SDRF or State EOC. */
+  contacts: z.array(contactSchema).default([]),
+  /** Numbers for individual districts, keyed by district name. */
+  districts: z.record(z.array(contactSchema)).default({}),
+});
+
+const directorySchema = z.object({
+  updatedAt: z.string(),
+  national: z.array(contactSchema).min(1),
+  /** Keyed by state or union territory name. */
+  states: z.record(stateSchema).default({}),
+});
+
+export type LocalizedText = z.infer<typeof localizedTextSchema>;
+
+export type DirectoryContact = z.infer<typeof contactSchema>;
+
+export type ContactDirectory = z.infer<typeof directorySchema>;
+
+export type ContactScope = 'district' | 'state' | 'national';
+
+export interface EmergencyContact extends DirectoryContact {
+  scope: ContactScope;
+}
+
+/**
+ * Fetched at runtime so numbers can be corrected by replacing one file, without a new
+ * build. The build publishes it here from `src/data/emergency-contacts.json`.
+ */
+export const CONTACT_DIRECTORY_URL = '/data/emergency-contacts.json';
+
+/** The directory as of this build, so the Emergency tab works before the file has ever been fetched. */
+export const BUNDLED_DIRECTORY: ContactDirectory = directorySchema.parse(bundledDirectory);
+
+export class ContactDirectoryError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ContactDirectoryError';
+  }
+}
+
+export const fetchContactDirectory = async (signal?: AbortSignal): Promise<ContactDirectory> => {
+  const response = await fetch(CONTACT_DIRECTORY_URL, { signal });
+  if (!response.ok) {
+    throw new ContactDirectoryError(
+      `Contact directory request failed: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+  const parsed = directorySchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new ContactDirectoryError('Contact directory is not in the expected format');
+  }
+  return parsed.data;
+};
+
+export const localizedText = (text: LocalizedText, language: string) => text[language] ?? text.en;
+
+/** Categories of the general disaster lines shown in the page footer, as opposed to police, fire or ambulance. */
+const HELPLINE_CATEGORIES = ['disaster', 'municipal'];
+
+/** The two disaster helplines for the footer: the most local one first, so a district control room displaces the national 1077. */
+export const footerHelplines = (contacts: EmergencyContact[]) =>
+  contacts.filter((contact) => HELPLINE_CATEGORIES.includes(contact.category)).slice(0, 2);
+
+/** Geocoders disagree on suffixes and spelling ("Mumbai Suburban District", "mumbai suburban"). */
+const normalizeRegion = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\b(district|division)\b/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const findRegion = <T>(entries: Record<string, T>, name: string | undefined) => {
+  if (!name) return undefined;
+  const wanted = normalizeRegion(name);
+  return Object.entries(entries).find(([key]) => normalizeRegion(key) === wanted)?.[1];
+};
+
+/**
+ * Numbers relevant where the user is: their district's first, then their state's, then
+ * the national ones. A number listed at several levels is shown once, at the most local.
+ */
+export const contactsForPlace = (
+  directory: ContactDirectory,
+  place: Pick<PlaceName, 'district' | 'state'> | null
+): EmergencyContact[] => {
+  const state = findRegion(directory.states, place?.state);
+  const district = state ? findRegion(state.districts, place?.district) : undefined;
+
+  const seen = new Set<string>();
+  return [
+    ...(district ?? []).map((contact) => ({ ...contact, scope: 'district' as const })),
+    ...(state?.contacts ?? []).map((contact) => ({ ...contact, scope: 'state' as const })),
+    ...directory.national.map((contact) => ({ ...contact, scope: 'national' as const })),
+  ].filter((contact) => {
+    const key = contact.number.replace(/\D/g, '');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
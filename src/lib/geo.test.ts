@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  circleToRing,
+  distanceToGeometryKm,
+  geometryContains,
+  haversineDistanceKm,
+  representativePoint,
+  type LinearRing,
+  type MultiPolygonGeometry,
+  type PolygonGeometry,
+} from './geo';
+
+const MUMBAI = { lat: 19.076, lng: 72.8777 };
+const PUNE = { lat: 18.5204, lng: 73.8567 };
+
+/** A square of `size` degrees with its south-west corner at (`lat`, `lng`). */
+const square = (lat: number, lng: number, size: number): LinearRing => [
+  [lng, lat],
+  [lng + size, lat],
+  [lng + size, lat + size],
+  [lng, lat + size],
+  [lng, lat],
+];
+
+describe('haversineDistanceKm', () => {
+  it('is zero for the same point', () => {
+    expect(haversineDistanceKm(MUMBAI, MUMBAI)).toBe(0);
+  });
+
+  it('matches the known distance between Mumbai and Pune', () => {
+    expect(haversineDistanceKm(MUMBAI, PUNE)).toBeCloseTo(120, -1);
+  });
+
+  it('is the same in both directions', () => {
+    expect(haversineDistanceKm(MUMBAI, PUNE)).toBe(haversineDistanceKm(PUNE, MUMBAI));
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(haversineDistanceKm({ lat: 20, lng: 78 }, { lat: 21, lng: 78 })).toBeCloseTo(111.2, 1);
+  });
+});
+
+describe('geometryContains', () => {
+  const polygon: PolygonGeometry = { type: 'Polygon', coordinates: [square(19, 72.8, 0.2)] };
+  const withHole: PolygonGeometry = { type: 'Polygon', coordinates: [square(19, 72.8, 0.2), square(19.05, 72.85, 0.1)] };
+
+  it('finds points inside a polygon', () => {
+    expect(geometryContains(polygon, { lat: 19.1, lng: 72.9 })).toBe(true);
+  });
+
+  it('rejects points outside a polygon', () => {
+    expect(geometryContains(polygon, { lat: 19.3, lng: 72.9 })).toBe(false);
+    expect(geometryContains(polygon, { lat: 19.1, lng: 73.1 })).toBe(false);
+  });
+
+  it('treats holes as outside', () => {
+    expect(geometryContains(withHole, { lat: 19.1, lng: 72.9 })).toBe(false);
+    expect(geometryContains(withHole, { lat: 19.02, lng: 72.82 })).toBe(true);
+  });
+
+  it('checks every polygon of a MultiPolygon', () => {
+    const multi: MultiPolygonGeometry = { type: 'MultiPolygon', coordinates: [[square(19, 72.8, 0.1)], [square(13, 80.2, 0.1)]] };
+    expect(geometryContains(multi, { lat: 13.05, lng: 80.25 })).toBe(true);
+    expect(geometryContains(multi, { lat: 16, lng: 76 })).toBe(false);
+  });
+
+  it('handles concave outlines', () => {
+    // An L shape: the notch at the top right is outside.
+    const shape: PolygonGeometry = {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [2, 0], [2, 1], [1, 1], [1, 2], [0, 2], [0, 0]]],
+    };
+    expect(geometryContains(shape, { lat: 0.5, lng: 1.5 })).toBe(true);
+    expect(geometryContains(shape, { lat: 1.5, lng: 1.5 })).toBe(false);
+  });
+
+  it('never contains anything in a Point', () => {
+    expect(geometryContains({ type: 'Point', coordinates: [72.9, 19.1] }, { lat: 19.1, lng: 72.9 })).toBe(false);
+  });
+});
+
+describe('distanceToGeometryKm', () => {
+  const polygon: PolygonGeometry = { type: 'Polygon', coordinates: [square(19, 72.8, 0.2)] };
+
+  it('is zero inside an area', () => {
+    expect(distanceToGeometryKm(polygon, { lat: 19.1, lng: 72.9 })).toBe(0);
+  });
+
+  it('measures to the nearest edge from outside', () => {
+    // 0.1° of latitude north of the top edge.
+    expect(distanceToGeometryKm(polygon, { lat: 19.3, lng: 72.9 })).toBeCloseTo(11.1, 1);
+  });
+
+  it('measures to the point itself for a Point', () => {
+    expect(distanceToGeometryKm({ type: 'Point', coordinates: [MUMBAI.lng, MUMBAI.lat] }, PUNE)).toBeCloseTo(
+      haversineDistanceKm(MUMBAI, PUNE)
+    );
+  });
+});
+
+describe('representativePoint', () => {
+  it('uses the centre of the largest polygon', () => {
+    const multi: MultiPolygonGeometry = { type: 'MultiPolygon', coordinates: [[square(13, 80, 0.1)], [square(19, 72, 1)]] };
+    const point = representativePoint(multi);
+    expect(point.lat).toBeCloseTo(19.5);
+    expect(point.lng).toBeCloseTo(72.5);
+  });
+});
+
+describe('circleToRing', () => {
+  it('closes the ring and keeps every vertex at the radius', () => {
+    const ring = circleToRing(MUMBAI, 5, 16);
+    expect(ring).toHaveLength(17);
+    expect(ring[16]).toEqual(ring[0]);
+    ring.forEach(([lng, lat]) => expect(haversineDistanceKm(MUMBAI, { lat, lng })).toBeCloseTo(5, 1));
+  });
+});
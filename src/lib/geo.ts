@@ -0,0 +1,160 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points in kilometres. */
+export const haversineDistanceKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/** "850 m" below one kilometre, "2.3 km" below 10 km, whole kilometres beyond. */
+export const formatDistance = (km: number, locale = 'en') => {
+  if (km < 1) {
+    const metres = Math.max(10, Math.round((km * 1000) / 10) * 10);
+    return `${metres.toLocaleString(locale)} m`;
+  }
+  const digits = km < 10 ? 1 : 0;
+  return `${km.toLocaleString(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })} km`;
+};
+
+/** GeoJSON position: `[longitude, latitude]`. */
+export type Position = [number, number];
+
+/** Closed ring; the first and last positions are expected to match. */
+export type LinearRing = Position[];
+
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: Position;
+}
+
+/** First ring is the outer boundary, any further rings are holes. */
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: LinearRing[];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: LinearRing[][];
+}
+
+export type Geometry = PointGeometry | PolygonGeometry | MultiPolygonGeometry;
+
+const polygonsOf = (geometry: Geometry): LinearRing[][] => {
+  switch (geometry.type) {
+    case 'Point':
+      return [];
+    case 'Polygon':
+      return [geometry.coordinates];
+    case 'MultiPolygon':
+      return geometry.coordinates;
+  }
+};
+
+/** Even-odd ray casting; adequate at city scale where lines of longitude are effectively straight. */
+const pointInRing = ({ lat, lng }: Coordinates, ring: LinearRing) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const pointInPolygon = (point: Coordinates, [outer, ...holes]: LinearRing[]) =>
+  !!outer && pointInRing(point, outer) && !holes.some((hole) => pointInRing(point, hole));
+
+/** True when `point` lies inside a Polygon or MultiPolygon. Points never contain anything. */
+export const geometryContains = (geometry: Geometry, point: Coordinates) =>
+  polygonsOf(geometry).some((polygon) => pointInPolygon(point, polygon));
+
+/** Area-weighted centroid of a ring, falling back to the vertex average for degenerate rings. */
+const ringCentroid = (ring: LinearRing): { center: Coordinates; area: number } => {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const cross = xj * yi - xi * yj;
+    area += cross;
+    x += (xj + xi) * cross;
+    y += (yj + yi) * cross;
+  }
+  if (area === 0) {
+    const sum = ring.reduce((acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }), { lat: 0, lng: 0 });
+    return { center: { lat: sum.lat / ring.length, lng: sum.lng / ring.length }, area: 0 };
+  }
+  return { center: { lat: y / (3 * area), lng: x / (3 * area) }, area: Math.abs(area / 2) };
+};
+
+/** A single point to label or centre on: the point itself, or the centroid of the largest polygon. */
+export const representativePoint = (geometry: Geometry): Coordinates => {
+  if (geometry.type === 'Point') {
+    const [lng, lat] = geometry.coordinates;
+    return { lat, lng };
+  }
+  return polygonsOf(geometry)
+    .map(([outer]) => ringCentroid(outer))
+    .reduce((largest, candidate) => (candidate.area > largest.area ? candidate : largest)).center;
+};
+
+/**
+ * Distance from `point` to the nearest point of a segment, using a local
+ * equirectangular projection; accurate to well under 1% over tens of kilometres.
+ */
+const distanceToSegmentKm = (point: Coordinates, [ax, ay]: Position, [bx, by]: Position) => {
+  const kx = Math.cos(toRadians(point.lat));
+  const px = point.lng * kx;
+  const [x1, y1, x2, y2] = [ax * kx, ay, bx * kx, by];
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (point.lat - y1) * dy) / lengthSq));
+  return haversineDistanceKm(point, { lat: y1 + t * dy, lng: (x1 + t * dx) / kx });
+};
+
+/** Kilometres from `point` to the geometry: zero inside an area, otherwise to the nearest edge. */
+export const distanceToGeometryKm = (geometry: Geometry, point: Coordinates) => {
+  if (geometry.type === 'Point') {
+    return haversineDistanceKm(point, representativePoint(geometry));
+  }
+  if (geometryContains(geometry, point)) return 0;
+
+  let nearest = Infinity;
+  polygonsOf(geometry).forEach((polygon) =>
+    polygon.forEach((ring) => {
+      for (let i = 1; i < ring.length; i++) {
+        nearest = Math.min(nearest, distanceToSegmentKm(point, ring[i - 1], ring[i]));
+      }
+    })
+  );
+  return nearest;
+};
+
+/** Approximates a circle as a closed ring, e.g. for CAP `<circle>` areas. */
+export const circleToRing = (center: Coordinates, radiusKm: number, segments = 32): LinearRing => {
+  const latRadius = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngRadius = latRadius / Math.cos(toRadians(center.lat));
+  const ring: LinearRing = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    ring.push([center.lng + lngRadius * Math.cos(angle), center.lat + latRadius * Math.sin(angle)]);
+  }
+  ring.push(ring[0]);
+  return ring;
+};
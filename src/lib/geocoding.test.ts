@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { translate, type TranslateFn } from '@/i18n';
+import { haversineDistanceKm } from './geo';
+import { NEAR_KM, OfflineReverseGeocoder, formatPlaceName, gazetteer, type Locality } from './geocoding';
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const byDistrict = (entries: Locality[]) => {
+  const districts = new Map<string, Locality[]>();
+  entries.forEach((entry) => {
+    const key = `${entry.district}, ${entry.state}`;
+    districts.set(key, [...(districts.get(key) ?? []), entry]);
+  });
+  return districts;
+};
+
+describe('gazetteer', () => {
+  // The largest districts (Kachchh, Leh, Jaisalmer) stretch to about this far from their middle.
+  const MAX_DISTRICT_SPREAD_KM = 150;
+  // Minicoy is some 250 km from the rest of the Lakshadweep islands.
+  const SCATTERED_DISTRICTS = new Set(['Lakshadweep, Lakshadweep']);
+
+  it('has no entry far from the rest of its district', () => {
+    const outliers = [...byDistrict(gazetteer)].flatMap(([district, entries]) =>
+      entries.length < 2 || SCATTERED_DISTRICTS.has(district)
+        ? []
+        : entries
+            .map((entry) => {
+              const others = entries.filter((other) => other !== entry);
+              const middle = { lat: median(others.map((other) => other.lat)), lng: median(others.map((other) => other.lng)) };
+              return { name: `${entry.name}, ${district}`, km: Math.round(haversineDistanceKm(entry, middle)) };
+            })
+            .filter(({ km }) => km > MAX_DISTRICT_SPREAD_KM)
+    );
+    expect(outliers).toEqual([]);
+  });
+
+  it('keeps every entry inside India', () => {
+    const outside = gazetteer.filter(({ lat, lng }) => lat < 6 || lat > 37.5 || lng < 68 || lng > 97.5);
+    expect(outside).toEqual([]);
+  });
+
+  it('lists each place once per district', () => {
+    const names = gazetteer.map((entry) => `${entry.name}, ${entry.district}, ${entry.state}`);
+    expect(names.filter((name, index) => names.indexOf(name) !== index)).toEqual([]);
+  });
+});
+
+describe('OfflineReverseGeocoder', () => {
+  const entries: Locality[] = [
+    { name: 'Kurla', district: 'Mumbai Suburban', state: 'Maharashtra', lat: 19.065, lng: 72.879 },
+    { name: 'Dadar', district: 'Mumbai City', state: 'Maharashtra', lat: 19.018, lng: 72.843 },
+    { name: 'Chhatrapati Shivaji Maharaj Terminus', district: 'Mumbai City', state: 'Maharashtra', lat: 19.066, lng: 72.88, landmark: true },
+  ];
+  const geocoder = new OfflineReverseGeocoder(entries);
+
+  it('names the nearest town with its distance', () => {
+    expect(geocoder.nearest({ lat: 19.02, lng: 72.845 })).toMatchObject({
+      locality: 'Dadar',
+      district: 'Mumbai City',
+      state: 'Maharashtra',
+    });
+    expect(geocoder.nearest({ lat: 19.02, lng: 72.845 })?.distanceKm).toBeLessThan(1);
+  });
+
+  it('never names a point after a landmark', () => {
+    expect(geocoder.nearest({ lat: 19.066, lng: 72.88 })?.locality).toBe('Kurla');
+  });
+
+  it('names nothing beyond 75 km of every town', () => {
+    expect(geocoder.nearest({ lat: 18.52, lng: 73.856 })).toBeNull();
+  });
+
+  it('finds a town for the headquarters of a district in the bundled gazetteer', async () => {
+    await expect(new OfflineReverseGeocoder().reverse({ lat: 18.52, lng: 73.856 })).resolves.toMatchObject({
+      locality: 'Pune',
+      district: 'Pune',
+    });
+  });
+});
+
+describe('formatPlaceName', () => {
+  const t: TranslateFn = (key, params) => translate('en', key, params);
+
+  it('names the locality, district and state', () => {
+    expect(formatPlaceName({ locality: 'Kurla', district: 'Mumbai Suburban', state: 'Maharashtra', distanceKm: 1 }, t)).toBe(
+      'Kurla, Mumbai Suburban, Maharashtra'
+    );
+  });
+
+  it('says "near" beyond walking distance of the locality', () => {
+    expect(
+      formatPlaceName({ locality: 'Kurla', district: 'Mumbai Suburban', state: 'Maharashtra', distanceKm: NEAR_KM + 1 }, t)
+    ).toBe('Near Kurla, Mumbai Suburban, Maharashtra');
+  });
+
+  it('does not repeat a district named after its town, or a state named after its district', () => {
+    expect(formatPlaceName({ locality: 'Pune', district: 'Pune', state: 'Maharashtra', distanceKm: 0 }, t)).toBe(
+      'Pune, Maharashtra'
+    );
+    expect(formatPlaceName({ locality: 'Saket', district: 'Delhi', state: 'Delhi', distanceKm: 0 }, t)).toBe('Saket, Delhi');
+  });
+});
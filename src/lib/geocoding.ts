@@ -0,0 +1,219 @@
+import localities from '@/data/localities.json';
+import type { TranslateFn } from '@/i18n';
+import { haversineDistanceKm, type Coordinates } from '@/lib/geo';
+
+/** A human-readable answer to "where is this?". */
+export interface PlaceName {
+  /** Town, suburb or neighbourhood. */
+  locality: string;
+  district: string;
+  state: string;
+  /**
+   * How far the point is from `locality`, in kilometres. The offline gazetteer only knows
+   * towns, so a point between them is described as "near" the closest one.
+   */
+  distanceKm: number;
+}
+
+export interface ReverseGeocoder {
+  /** Resolves to null when nothing sensible is known about the point, e.g. out at sea. */
+  reverse(coordinates: Coordinates, language: string): Promise<PlaceName | null>;
+}
+
+/** An entry in the bundled gazetteer, a PIN code area or a place found by an online search. */
+export interface Locality extends Coordinates {
+  name: string;
+  district: string;
+  state: string;
+  pin?: string;
+  /** Stations, lakes and monuments: found by search, but never used to name a point. */
+  landmark?: boolean;
+}
+
+/** District headquarters and other main towns, flood-prone towns, city neighbourhoods and landmarks. */
+export const gazetteer: Locality[] = localities;
+
+/** Within this distance a point is "in" a locality; beyond it, "near" one. */
+export const NEAR_KM = 5;
+
+/** Further than this from every known town, naming one would mislead more than it helps. */
+const MAX_OFFLINE_DISTANCE_KM = 75;
+
+/** Nearest town in the bundled gazetteer of Indian district headquarters and flood-prone towns. Works offline. */
+export class OfflineReverseGeocoder implements ReverseGeocoder {
+  constructor(private readonly entries: Locality[] = gazetteer) {}
+
+  nearest(coordinates: Coordinates): PlaceName | null {
+    let best: PlaceName | null = null;
+    for (const locality of this.entries) {
+      if (locality.landmark) continue;
+      const distanceKm = haversineDistanceKm(coordinates, locality);
+      if (distanceKm <= MAX_OFFLINE_DISTANCE_KM && (!best || distanceKm < best.distanceKm)) {
+        best = { locality: locality.name, district: locality.district, state: locality.state, distanceKm };
+      }
+    }
+    return best;
+  }
+
+  async reverse(coordinates: Coordinates) {
+    return this.nearest(coordinates);
+  }
+}
+
+export class GeocoderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'GeocoderError';
+  }
+}
+
+/** The subset of a Nominatim `address`, from `/reverse` or `/search`, used here. */
+interface NominatimAddress {
+  suburb?: string;
+  neighbourhood?: string;
+  village?: string;
+  town?: string;
+  city?: string;
+  city_district?: string;
+  state_district?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+}
+
+const placeFromAddress = (address: NominatimAddress): PlaceName | null => {
+  const locality =
+    address.suburb ?? address.neighbourhood ?? address.village ?? address.town ?? address.city ?? address.city_district;
+  const district = address.state_district ?? address.county ?? address.city ?? locality;
+  if (!address.state || !locality || !district) return null;
+  return { locality, district, state: address.state, distanceKm: 0 };
+};
+
+/**
+ * Asks a Nominatim-compatible service (`GET /reverse?format=jsonv2&lat=&lon=`), which
+ * knows street-level localities and returns names in the user's language. Falls back to
+ * `fallback` when offline or when the service fails, so a name is always shown if one
+ * is known at all.
+ */
+export class NominatimReverseGeocoder implements ReverseGeocoder {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly fallback: OfflineReverseGeocoder = new OfflineReverseGeocoder()
+  ) {}
+
+  private async lookup({ lat, lng }: Coordinates, language: string): Promise<PlaceName | null> {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      lat: String(lat),
+      lon: String(lng),
+      zoom: '14',
+      'accept-language': `${language},en`,
+    });
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/reverse?${params}`);
+    if (!response.ok) {
+      throw new GeocoderError(`Reverse geocoding failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    const { address } = (await response.json()) as { address?: NominatimAddress };
+    return address ? placeFromAddress(address) : null;
+  }
+
+  async reverse(coordinates: Coordinates, language: string) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return this.fallback.nearest(coordinates);
+    try {
+      return (await this.lookup(coordinates, language)) ?? this.fallback.nearest(coordinates);
+    } catch (error) {
+      console.warn('Online reverse geocoding failed, using the offline gazetteer:', error);
+      return this.fallback.nearest(coordinates);
+    }
+  }
+}
+
+let reverseGeocoder: ReverseGeocoder | null = null;
+
+/** Uses the online service at `VITE_GEOCODER_URL` when set, otherwise only the bundled gazetteer. */
+export const getReverseGeocoder = (): ReverseGeocoder => {
+  if (!reverseGeocoder) {
+    const url = import.meta.env.VITE_GEOCODER_URL;
+    reverseGeocoder = url ? new NominatimReverseGeocoder(url) : new OfflineReverseGeocoder();
+  }
+  return reverseGeocoder;
+};
+
+export const setReverseGeocoder = (geocoder: ReverseGeocoder) => {
+  reverseGeocoder = geocoder;
+};
+
+export interface ForwardGeocoder {
+  /** Places matching free text, best match first. Needs the network. */
+  search(query: string, language: string, signal?: AbortSignal): Promise<Locality[]>;
+}
+
+/** One result of a Nominatim `/search?format=jsonv2&addressdetails=1` response. */
+interface NominatimSearchResult {
+  lat: string;
+  lon: string;
+  name?: string;
+  address?: NominatimAddress;
+}
+
+/**
+ * Searches a Nominatim-compatible service (`GET /search?format=jsonv2&q=`) for streets,
+ * villages and landmarks the bundled gazetteer does not know, restricted to India.
+ */
+export class NominatimForwardGeocoder implements ForwardGeocoder {
+  constructor(private readonly baseUrl: string, private readonly limit = 8) {}
+
+  async search(query: string, language: string, signal?: AbortSignal) {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      q: query,
+      countrycodes: 'in',
+      addressdetails: '1',
+      limit: String(this.limit),
+      'accept-language': `${language},en`,
+    });
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/search?${params}`, { signal });
+    if (!response.ok) {
+      throw new GeocoderError(`Place search failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    const results = (await response.json()) as NominatimSearchResult[];
+    return results.flatMap((result): Locality[] => {
+      const place = result.address && placeFromAddress(result.address);
+      if (!place) return [];
+      const pin = result.address?.postcode?.replace(/\s/g, '');
+      return [
+        {
+          name: result.name || place.locality,
+          district: place.district,
+          state: place.state,
+          ...(pin && /^\d{6}$/.test(pin) ? { pin } : {}),
+          lat: Number(result.lat),
+          lng: Number(result.lon),
+        },
+      ];
+    });
+  }
+}
+
+let forwardGeocoder: ForwardGeocoder | null | undefined;
+
+/** The online service at `VITE_GEOCODER_URL`, or null when none is configured and search is offline only. */
+export const getForwardGeocoder = (): ForwardGeocoder | null => {
+  if (forwardGeocoder === undefined) {
+    const url = import.meta.env.VITE_GEOCODER_URL;
+    forwardGeocoder = url ? new NominatimForwardGeocoder(url) : null;
+  }
+  return forwardGeocoder;
+};
+
+export const setForwardGeocoder = (geocoder: ForwardGeocoder | null) => {
+  forwardGeocoder = geocoder;
+};
+
+/** "Kurla, Mumbai Suburban, Maharashtra", or "Near Chiplun, Ratnagiri, Maharashtra" between towns. Repeated names are dropped. */
+export const formatPlaceName = (place: PlaceName, t: TranslateFn) => {
+  const locality = place.distanceKm > NEAR_KM ? t('location.near', { place: place.locality }) : place.locality;
+  const parts = [place.locality, place.district, place.state];
+  const rest = parts.slice(1).filter((part, index) => part !== parts[index]);
+  return [locality, ...rest].join(', ');
+};
@@ -0,0 +1,119 @@
+import type { Coordinates } from '@/lib/geo';
+
+/** A position reported by the device. */
+export interface LocationFix extends Coordinates {
+  /** Radius of the 95% confidence circle, in metres. */
+  accuracy: number;
+  /** When the device took the fix, in epoch milliseconds. */
+  timestamp: number;
+}
+
+export type LocationError = 'unsupported' | 'denied' | 'unavailable' | 'timeout';
+
+export interface LocationState {
+  /** Most recent fix. Kept when later updates fail, so the app can still use it (flagged as stale). */
+  fix: LocationFix | null;
+  /** Why the latest attempt failed; cleared by the next successful fix. */
+  error: LocationError | null;
+  /** Watching, but no fix has arrived since the watch (re)started. */
+  locating: boolean;
+}
+
+/** A fix older than this no longer says where the user is; they may be moving through flood water. */
+export const STALE_AFTER_MS = 2 * 60_000;
+
+export const isFixStale = (fix: LocationFix, now = Date.now()) => now - fix.timestamp > STALE_AFTER_MS;
+
+/**
+ * `watchPosition` only reports movement, so a user standing still would drift into
+ * "stale". Ask for a fresh fix once the last one is this old.
+ */
+const REFRESH_AFTER_MS = 60_000;
+
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  maximumAge: 30_000,
+  timeout: 30_000,
+};
+
+const errorCodes: Record<number, LocationError> = {
+  1: 'denied',
+  2: 'unavailable',
+  3: 'timeout',
+};
+
+/**
+ * Keeps a `watchPosition` running while anything is subscribed, shaped for
+ * `useSyncExternalStore`. The watch starts with the first subscriber and stops with the
+ * last, so the GPS is not kept awake for a page that no longer needs it.
+ */
+class LocationService {
+  private state: LocationState = { fix: null, error: null, locating: false };
+  private listeners = new Set<() => void>();
+  private watchId: number | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  };
+
+  getSnapshot = () => this.state;
+
+  /** Restarts the watch, e.g. after the user has granted permission or moved outdoors. */
+  retry = () => {
+    this.stop();
+    this.start();
+  };
+
+  private start() {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      this.setState({ error: 'unsupported', locating: false });
+      return;
+    }
+    this.setState({ error: null, locating: true });
+    this.watchId = navigator.geolocation.watchPosition(this.handlePosition, this.handleError, WATCH_OPTIONS);
+    this.refreshTimer = setInterval(() => {
+      const { fix } = this.state;
+      if (fix && Date.now() - fix.timestamp > REFRESH_AFTER_MS) {
+        navigator.geolocation.getCurrentPosition(this.handlePosition, this.handleError, { ...WATCH_OPTIONS, maximumAge: 0 });
+      }
+    }, REFRESH_AFTER_MS / 2);
+  }
+
+  private stop() {
+    if (this.watchId !== null) navigator.geolocation.clearWatch(this.watchId);
+    this.watchId = null;
+    if (this.refreshTimer !== null) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  private handlePosition = (position: GeolocationPosition) => {
+    this.setState({
+      fix: {
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp,
+      },
+      error: null,
+      locating: false,
+    });
+  };
+
+  private handleError = (error: GeolocationPositionError) => {
+    console.warn('Location update failed:', error.message);
+    this.setState({ error: errorCodes[error.code] ?? 'unavailable', locating: false });
+  };
+
+  private setState(patch: Partial<LocationState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const locationService = new LocationService();
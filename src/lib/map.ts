@@ -0,0 +1,28 @@
+import type { LatLngBoundsExpression } from 'leaflet';
+import type { AlertSeverity } from '@/lib/alerts/types';
+
+export const tileLayerConfig = {
+  url: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution:
+    import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+/** Whole of India; used when there is nothing more specific to centre on. */
+export const INDIA_BOUNDS: LatLngBoundsExpression = [
+  [6.5, 68.0],
+  [37.1, 97.5],
+];
+
+export const DEFAULT_ZOOM = 13;
+
+export const severityColors: Record<AlertSeverity, string> = {
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+};
+
+export const REPORT_MARKER_COLOR = '#7c3aed';
+export const USER_MARKER_COLOR = '#16a34a';
@@ -0,0 +1,76 @@
+import { alertDeepLink } from '@/lib/alerts/notifications';
+import type { FloodAlert, LocalizedAlertText } from '@/lib/alerts/types';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export const notificationPermission = (): NotificationPermissionState =>
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+
+const permissionListeners = new Set<() => void>();
+const emitPermission = () => permissionListeners.forEach((listener) => listener());
+let watchingSiteSettings = false;
+
+/**
+ * Calls `listener` whenever the permission may have changed: after our own prompt, or when the
+ * user changes it in the browser's site settings (where the Permissions API reports that).
+ */
+export const subscribeNotificationPermission = (listener: () => void) => {
+  if (!watchingSiteSettings && typeof navigator !== 'undefined' && navigator.permissions) {
+    watchingSiteSettings = true;
+    navigator.permissions
+      .query({ name: 'notifications' })
+      .then((status) => status.addEventListener('change', emitPermission))
+      // Some browsers cannot query this permission; our own prompt still reports its result.
+      .catch(() => {});
+  }
+  permissionListeners.add(listener);
+  return () => {
+    permissionListeners.delete(listener);
+  };
+};
+
+/** Prompts only when the user has not decided yet; browsers ignore repeat prompts after a denial anyway. */
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+  const current = notificationPermission();
+  if (current !== 'default') return current;
+  const result = await Notification.requestPermission();
+  emitPermission();
+  return result;
+};
+
+/**
+ * Shows a system notification for an alert. Goes through the service worker when one is
+ * active so the click handler in `sw.js` can focus or reopen the app; otherwise falls back
+ * to a page-owned notification that calls `onClick`. Tagged by alert ID, so a push and a
+ * poll delivering the same alert produce a single notification.
+ */
+export const showAlertNotification = async (
+  alert: FloodAlert,
+  text: LocalizedAlertText,
+  onClick?: () => void
+): Promise<boolean> => {
+  if (notificationPermission() !== 'granted') return false;
+
+  const options: NotificationOptions = {
+    body: text.areaName ? `${text.areaName}\n${text.description}` : text.description,
+    tag: `alert-${alert.id}`,
+    icon: '/icon-192.png',
+    badge: '/icon-192.png',
+    requireInteraction: alert.severity === 'critical',
+    data: { url: alertDeepLink(alert.id), alertId: alert.id },
+  };
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration?.active) {
+    await registration.showNotification(text.title, options);
+    return true;
+  }
+
+  const notification = new Notification(text.title, options);
+  notification.onclick = () => {
+    window.focus();
+    onClick?.();
+    notification.close();
+  };
+  return true;
+};
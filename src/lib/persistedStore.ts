@@ -0,0 +1,79 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
+const KEY_PREFIX = 'suraksha.';
+
+export interface PersistedStore<T> {
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => T;
+  set: (value: T) => void;
+  update: (updater: (current: T) => T) => void;
+}
+
+/**
+ * A small synchronous store backed by localStorage, shaped for `useSyncExternalStore`.
+ * Stored values are validated with `schema` on load, so a corrupt or outdated entry
+ * falls back to `initial` instead of crashing the app. Changes made in other tabs
+ * are picked up through the `storage` event.
+ */
+export function createPersistedStore<T>(
+  key: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  initial: T
+): PersistedStore<T> {
+  const storageKey = KEY_PREFIX + key;
+  const listeners = new Set<() => void>();
+  let value: T | undefined;
+
+  const read = (): T => {
+    try {
+      const raw = localStorage.getItem(storageKey);
+      if (raw === null) return initial;
+      const parsed = schema.safeParse(JSON.parse(raw));
+      return parsed.success ? parsed.data : initial;
+    } catch {
+      return initial;
+    }
+  };
+
+  const emit = () => listeners.forEach((listener) => listener());
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey) return;
+    value = read();
+    emit();
+  };
+
+  const getSnapshot = () => {
+    if (value === undefined) value = read();
+    return value;
+  };
+
+  const set = (next: T) => {
+    value = next;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(next));
+    } catch (error) {
+      // Quota or privacy-mode failures keep the value in memory for this session.
+      console.warn(`Could not persist "${storageKey}":`, error);
+    }
+    emit();
+  };
+
+  return {
+    subscribe: (listener) => {
+      if (listeners.size === 0 && typeof window !== 'undefined') {
+        window.addEventListener('storage', handleStorage);
+      }
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== 'undefined') {
+          window.removeEventListener('storage', handleStorage);
+        }
+      };
+    },
+    getSnapshot,
+    set,
+    update: (updater) => set(updater(getSnapshot())),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { readExif } from './photos';
+
+const TAG_ORIENTATION = 0x0112;
+const TYPE_SHORT = 3;
+
+/** A JPEG with an APP1 EXIF segment holding one IFD0 entry, the orientation, followed by start-of-scan. */
+const jpegWithOrientation = (orientation: number, { littleEndian = true } = {}) => {
+  // TIFF header (8) + entry count (2) + one entry (12) + next-IFD offset (4).
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, 1, littleEndian);
+  tiff.setUint16(10, TAG_ORIENTATION, littleEndian);
+  tiff.setUint16(12, TYPE_SHORT, littleEndian);
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+  tiff.setUint32(22, 0, littleEndian);
+
+  const exifHeader = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+  const segmentLength = 2 + exifHeader.length + tiff.byteLength;
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe1, segmentLength >> 8, segmentLength & 0xff,
+    ...exifHeader,
+    ...new Uint8Array(tiff.buffer),
+    0xff, 0xda, 0, 2,
+  ]).buffer;
+};
+
+describe('readExif', () => {
+  it.each([1, 3, 6, 8])('reads orientation %i', (orientation) => {
+    expect(readExif(jpegWithOrientation(orientation)).orientation).toBe(orientation);
+  });
+
+  it('reads big-endian (Motorola) EXIF too', () => {
+    expect(readExif(jpegWithOrientation(6, { littleEndian: false })).orientation).toBe(6);
+  });
+
+  it('treats an out-of-range orientation as upright', () => {
+    expect(readExif(jpegWithOrientation(9)).orientation).toBe(1);
+    expect(readExif(jpegWithOrientation(0)).orientation).toBe(1);
+  });
+
+  it('leaves the capture time and position empty when the camera did not record them', () => {
+    expect(readExif(jpegWithOrientation(6))).toEqual({ orientation: 6, takenAt: null, coordinates: null });
+  });
+
+  it('skips other segments before the EXIF one', () => {
+    const exif = new Uint8Array(jpegWithOrientation(3));
+    // An APP0 (JFIF) segment with a 2-byte body.
+    const app0 = [0xff, 0xe0, 0, 4, 0, 0];
+    const buffer = new Uint8Array([...exif.slice(0, 2), ...app0, ...exif.slice(2)]).buffer;
+    expect(readExif(buffer).orientation).toBe(3);
+  });
+
+  it('gives defaults for JPEGs without EXIF, other formats and truncated files', () => {
+    const upright = { orientation: 1, takenAt: null, coordinates: null };
+    expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2, 0, 0, 0, 0, 0, 0]).buffer)).toEqual(upright);
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).buffer)).toEqual(upright);
+    expect(readExif(jpegWithOrientation(6).slice(0, 24))).toEqual(upright);
+    expect(readExif(new ArrayBuffer(0))).toEqual(upright);
+  });
+});
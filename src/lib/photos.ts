@@ -0,0 +1,260 @@
+import type { Coordinates } from '@/lib/geo';
+import { drawWatermark } from '@/lib/watermark';
+
+/** Photos per report. Each is a few hundred kilobytes after compression, which a 2G upload can still manage. */
+export const MAX_PHOTOS = 6;
+
+/** Larger files are rarely ordinary photos and would stall a low-end phone while decoding. */
+export const MAX_PHOTO_INPUT_BYTES = 30 * 1024 * 1024;
+
+/** Longest side after resizing: enough to read a water level against a wall or a house number. */
+const MAX_DIMENSION = 1600;
+
+const JPEG_QUALITY = 0.75;
+
+/** EXIF lives in the first APP1 segment, which cannot exceed 64 KB; no need to read the whole file. */
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+/** What a photo's EXIF says that the report can use. Everything else in it is discarded. */
+export interface PhotoExif {
+  /** 1–8 as defined by EXIF; 1 is upright. */
+  orientation: number;
+  /** When the photo was taken, as ISO 8601. */
+  takenAt: string | null;
+  /** Where the photo was taken, when the camera recorded it. */
+  coordinates: Coordinates | null;
+}
+
+const NO_EXIF: PhotoExif = { orientation: 1, takenAt: null, coordinates: null };
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  tag: number;
+  count: number;
+  /** Offset of the 4-byte value field from the start of the TIFF header. */
+  valueOffset: number;
+}
+
+/** EXIF dates are local time, "2026:07:14 09:41:05", with the UTC offset in a separate tag when at all. */
+const parseExifDate = (value: string, offset: string): string | null => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const date = /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+    : new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/** Reads the TIFF structure inside an EXIF segment. Throws RangeError on truncated data. */
+const readTiff = (view: DataView, start: number): PhotoExif => {
+  const little = view.getUint16(start) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(start + offset, little);
+  const u32 = (offset: number) => view.getUint32(start + offset, little);
+
+  const readIfd = (offset: number): IfdEntry[] =>
+    Array.from({ length: u16(offset) }, (_, index) => {
+      const entry = offset + 2 + index * 12;
+      return { tag: u16(entry), count: u32(entry + 4), valueOffset: entry + 8 };
+    });
+  const find = (entries: IfdEntry[], tag: number) => entries.find((entry) => entry.tag === tag);
+  const ascii = (entry: IfdEntry | undefined) => {
+    if (!entry) return '';
+    const at = entry.count > 4 ? u32(entry.valueOffset) : entry.valueOffset;
+    const bytes = Array.from({ length: entry.count }, (_, index) => view.getUint8(start + at + index));
+    return String.fromCharCode(...bytes).replace(/\0.*$/, '');
+  };
+  const rationals = (entry: IfdEntry | undefined) => {
+    if (!entry) return [];
+    const at = u32(entry.valueOffset);
+    return Array.from({ length: entry.count }, (_, index) => u32(at + index * 8) / u32(at + index * 8 + 4));
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const orientationEntry = find(ifd0, TAG_ORIENTATION);
+  const orientation = orientationEntry ? u16(orientationEntry.valueOffset) : 1;
+
+  let takenAt: string | null = null;
+  const exifPointer = find(ifd0, TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exif = readIfd(u32(exifPointer.valueOffset));
+    takenAt = parseExifDate(ascii(find(exif, TAG_DATE_TIME_ORIGINAL)), ascii(find(exif, TAG_OFFSET_TIME_ORIGINAL)));
+  }
+
+  let coordinates: Coordinates | null = null;
+  const gpsPointer = find(ifd0, TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.valueOffset));
+    const degrees = ([d = NaN, m = 0, s = 0]: number[]) => d + m / 60 + s / 3600;
+    const latSign = ascii(find(gps, TAG_GPS_LATITUDE_REF)) === 'S' ? -1 : 1;
+    const lngSign = ascii(find(gps, TAG_GPS_LONGITUDE_REF)) === 'W' ? -1 : 1;
+    const lat = degrees(rationals(find(gps, TAG_GPS_LATITUDE))) * latSign;
+    const lng = degrees(rationals(find(gps, TAG_GPS_LONGITUDE))) * lngSign;
+    // Cameras without a fix often write zeros rather than leaving the tags out.
+    if (Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && (lat || lng)) {
+      coordinates = { lat, lng };
+    }
+  }
+
+  return { orientation: orientation >= 1 && orientation <= 8 ? orientation : 1, takenAt, coordinates };
+};
+
+/** Orientation, capture time and GPS position from a JPEG's EXIF segment. Other formats, and JPEGs without EXIF, give defaults. */
+export const readExif = (buffer: ArrayBuffer): PhotoExif => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return NO_EXIF;
+
+  let offset = 2;
+  while (offset + 10 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Stop at anything that is not a marker, and at start-of-scan where the image data begins.
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 /* "Exif" */) {
+      try {
+        return readTiff(view, offset + 10);
+      } catch {
+        return NO_EXIF;
+      }
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return NO_EXIF;
+};
+
+export class PhotoProcessingError extends Error {
+  constructor(message: string, public readonly reason: 'tooLarge' | 'unsupported') {
+    super(message);
+    this.name = 'PhotoProcessingError';
+  }
+}
+
+/** A photo ready to attach to a report. */
+export interface PreparedPhoto {
+  /** Resized JPEG, re-encoded so none of the original metadata (camera, owner, GPS) survives. */
+  file: File;
+  takenAt: string | null;
+  coordinates: Coordinates | null;
+  /** Bytes before processing, to show what was saved. */
+  originalSize: number;
+}
+
+const loadImage = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new PhotoProcessingError('The browser cannot decode this image', 'unsupported'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Browsers that support the `image-orientation` property also apply EXIF orientation when
+ * decoding. Older Android WebViews (Chrome < 81), still common on low-end phones, do not,
+ * and their photos need turning by hand.
+ */
+const browserAppliesOrientation = () => typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+type Matrix = [number, number, number, number, number, number];
+
+/** Canvas transforms that map the unrotated image (width × height) upright, per EXIF orientation. */
+const orientationTransforms: Record<number, (width: number, height: number) => Matrix> = {
+  2: (width) => [-1, 0, 0, 1, width, 0],
+  3: (width, height) => [-1, 0, 0, -1, width, height],
+  4: (_, height) => [1, 0, 0, -1, 0, height],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, height) => [0, 1, -1, 0, height, 0],
+  7: (width, height) => [0, -1, -1, 0, height, width],
+  8: (width) => [0, -1, 1, 0, 0, width],
+};
+
+const jpegName = (name: string) => `${name.replace(/\.[^.]+$/, '') || 'photo'}.jpg`;
+
+const encodeJpeg = async (canvas: HTMLCanvasElement, name: string, lastModified: number) => {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new PhotoProcessingError('Could not encode the photo as JPEG', 'unsupported');
+  return new File([blob], jpegName(name), { type: 'image/jpeg', lastModified });
+};
+
+export interface PreparePhotoOptions {
+  /**
+   * Stamp the capture time on the photo. Only for photos just taken with the camera, whose
+   * time can be trusted; a gallery photo's could be anything.
+   */
+  watermark?: boolean;
+}
+
+/**
+ * Turns a picked or captured image into a small, upright JPEG with no metadata. The capture
+ * time and GPS position are read out first so the report can still use them. Throws
+ * PhotoProcessingError for files that are too large or cannot be decoded (e.g. HEIC
+ * outside Safari); those are never uploaded as-is, since their metadata could not be removed.
+ */
+export const preparePhoto = async (file: File, { watermark = false }: PreparePhotoOptions = {}): Promise<PreparedPhoto> => {
+  if (file.size > MAX_PHOTO_INPUT_BYTES) {
+    throw new PhotoProcessingError(`Photo is ${file.size} bytes, over the ${MAX_PHOTO_INPUT_BYTES} byte limit`, 'tooLarge');
+  }
+  const exif = readExif(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  const image = await loadImage(file);
+
+  const orientation = browserAppliesOrientation() ? 1 : exif.orientation;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const sideways = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sideways ? height : width;
+  canvas.height = sideways ? width : height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new PhotoProcessingError('Canvas 2D is unavailable', 'unsupported');
+  const transform = orientationTransforms[orientation];
+  if (transform) context.transform(...transform(width, height));
+  context.drawImage(image, 0, 0, width, height);
+
+  // Camera apps write the file as the shutter fires, so its modification time is the capture time when EXIF lacks one.
+  const takenAt = exif.takenAt ?? (watermark ? new Date(file.lastModified).toISOString() : null);
+  if (watermark && takenAt) drawWatermark(context, new Date(takenAt));
+
+  return {
+    file: await encodeJpeg(canvas, file.name, file.lastModified),
+    takenAt,
+    coordinates: exif.coordinates,
+    originalSize: file.size,
+  };
+};
+
+/** A watermarked photo of the current frame of a live camera preview. */
+export const captureFrame = async (video: HTMLVideoElement, capturedAt = new Date()): Promise<PreparedPhoto> => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context || canvas.width === 0) throw new PhotoProcessingError('The camera has no frame to capture', 'unsupported');
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  drawWatermark(context, capturedAt);
+
+  const file = await encodeJpeg(canvas, `photo-${capturedAt.getTime()}`, capturedAt.getTime());
+  return { file, takenAt: capturedAt.toISOString(), coordinates: null, originalSize: file.size };
+};
+
+/** "340 KB", "1.2 MB". */
+export const formatFileSize = (bytes: number, locale = 'en') =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024)).toLocaleString(locale)} KB`
+    : `${(bytes / (1024 * 1024)).toLocaleString(locale, { maximumFractionDigits: 1 })} MB`;
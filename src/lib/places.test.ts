@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistanceKm } from './geo';
+import { gazetteer, type Locality } from './geocoding';
+import { mergeSearchResults, parseCoordinates, pinCodeRegion, placeLabel, searchGazetteer } from './places';
+
+const pinCodeFiles = import.meta.glob<Locality[]>('/public/data/pincodes/*.json', { eager: true, import: 'default' });
+
+describe('PIN code files', () => {
+  const areas = Object.values(pinCodeFiles).flat();
+  // A little more than the widest districts' reach from their headquarters (Barmer, Kachchh, Karbi Anglong).
+  const MAX_DISTANCE_KM = 150;
+
+  it('puts every PIN code near a town of its own district', () => {
+    expect(areas.length).toBeGreaterThan(19_000);
+    const towns = new Map<string, Locality[]>();
+    gazetteer
+      .filter((entry) => !entry.landmark)
+      .forEach((entry) => {
+        const key = `${entry.district}, ${entry.state}`;
+        towns.set(key, [...(towns.get(key) ?? []), entry]);
+      });
+
+    const outliers = areas.flatMap((area) => {
+      const district = `${area.district}, ${area.state}`;
+      const nearest = Math.min(...(towns.get(district) ?? []).map((town) => haversineDistanceKm(area, town)));
+      return nearest > MAX_DISTANCE_KM ? [`${area.pin} ${area.name}, ${district}: ${Math.round(nearest)} km`] : [];
+    });
+    expect(outliers).toEqual([]);
+  });
+
+  it('files each PIN code under its first two digits', () => {
+    const misfiled = Object.entries(pinCodeFiles).flatMap(([path, entries]) =>
+      entries.filter((area) => !path.endsWith(`/${area.pin?.slice(0, 2)}.json`)).map((area) => `${area.pin} in ${path}`)
+    );
+    expect(misfiled).toEqual([]);
+  });
+});
+
+describe('searchGazetteer', () => {
+  it('matches every word against the name, district or state', () => {
+    expect(searchGazetteer('kurla').map(placeLabel)).toContain('Kurla, Mumbai Suburban 400070');
+    expect(searchGazetteer('dadar mumbai').map((place) => place.name)).toEqual(['Dadar']);
+    expect(searchGazetteer('dadar pune')).toEqual([]);
+  });
+
+  it('matches digits against PIN code prefixes', () => {
+    const results = searchGazetteer('4000');
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every((place) => place.pin?.startsWith('4000'))).toBe(true);
+  });
+
+  it('waits for two characters and stops at the limit', () => {
+    expect(searchGazetteer(' k ')).toEqual([]);
+    expect(searchGazetteer('pradesh', 3)).toHaveLength(3);
+  });
+});
+
+describe('pinCodeRegion', () => {
+  it('is the first two digits of a code or prefix', () => {
+    expect(pinCodeRegion('40')).toBe('40');
+    expect(pinCodeRegion(' 400070 ')).toBe('40');
+  });
+
+  it('is null for anything that cannot start a PIN code', () => {
+    expect(pinCodeRegion('4')).toBeNull();
+    expect(pinCodeRegion('040007')).toBeNull();
+    expect(pinCodeRegion('4000701')).toBeNull();
+    expect(pinCodeRegion('kurla')).toBeNull();
+  });
+});
+
+describe('mergeSearchResults', () => {
+  const kurla: Locality = { name: 'Kurla', district: 'Mumbai Suburban', state: 'Maharashtra', pin: '400070', lat: 19.065, lng: 72.879 };
+  const dadar: Locality = { name: 'Dadar', district: 'Mumbai City', state: 'Maharashtra', pin: '400014', lat: 19.018, lng: 72.843 };
+  const kurlaPostOffice: Locality = { ...kurla, lat: 19.07, lng: 72.88 };
+
+  it('keeps the order of the lists and drops places already listed under the same label', () => {
+    expect(mergeSearchResults([[kurla], [kurlaPostOffice, dadar]])).toEqual([kurla, dadar]);
+  });
+
+  it('stops at the limit', () => {
+    expect(mergeSearchResults([[kurla, dadar]], 1)).toEqual([kurla]);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it.each([
+    ['19.0760, 72.8777'],
+    ['19.0760,72.8777'],
+    ['19.0760 72.8777'],
+    ['  19.0760 ,  72.8777  '],
+  ])('reads %s', (text) => {
+    expect(parseCoordinates(text)).toEqual({ lat: 19.076, lng: 72.8777 });
+  });
+
+  it('reads whole degrees and negative values', () => {
+    expect(parseCoordinates('19, 73')).toEqual({ lat: 19, lng: 73 });
+    expect(parseCoordinates('-33.8688, 151.2093')).toEqual({ lat: -33.8688, lng: 151.2093 });
+  });
+
+  it.each([['91, 72'], ['19, 181'], ['kurla'], ['400070'], ['19.07; 72.88'], ['19.07, 72.88, 10']])('rejects %s', (text) => {
+    expect(parseCoordinates(text)).toBeNull();
+  });
+});
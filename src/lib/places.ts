@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { GeocoderError, gazetteer, type Locality } from '@/lib/geocoding';
+import { createPersistedStore } from '@/lib/persistedStore';
+import type { Coordinates } from '@/lib/geo';
+
+const pickedPlaceSchema = z.object({
+  label: z.string(),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+/** A location the user chose by hand: a search result, a recent place or a pin on the map. */
+export type PickedPlace = z.infer<typeof pickedPlaceSchema>;
+
+export const formatCoordinates = ({ lat, lng }: Coordinates) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+
+/** "Dadar, Mumbai City 400014". The district is left out when the place is named after it. */
+export const placeLabel = (place: Locality) => {
+  const district = place.district === place.name ? '' : place.district;
+  return [place.name, [district, place.pin].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+};
+
+/** Reads "19.0760, 72.8777" (or space-separated) as coordinates, for users who have them from elsewhere. */
+export const parseCoordinates = (text: string): Coordinates | null => {
+  const match = text.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+};
+
+export const MAX_SEARCH_RESULTS = 8;
+
+/**
+ * Gazetteer matches for a town, area, landmark or PIN code. Digits match PIN code prefixes;
+ * anything else must match every word against the name, district or state.
+ */
+export const searchGazetteer = (query: string, limit = MAX_SEARCH_RESULTS): Locality[] => {
+  const normalized = query.trim().toLowerCase();
+  if (normalized.length < 2) return [];
+  if (/^\d+$/.test(normalized)) {
+    return gazetteer.filter((place) => place.pin?.startsWith(normalized)).slice(0, limit);
+  }
+  const words = normalized.split(/\s+/);
+  return gazetteer
+    .filter((place) => {
+      const haystack = `${place.name} ${place.district} ${place.state}`.toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    })
+    .slice(0, limit);
+};
+
+/**
+ * Every PIN code in India, one file per postal region (the first two digits), fetched only
+ * when someone searches for a code in that region. The service worker keeps a copy of each
+ * file it has served, so a region looked up once still works offline.
+ */
+export const PIN_CODE_DATA_URL = '/data/pincodes';
+
+/** The region file a PIN code or PIN code prefix falls in; null until there are two digits. */
+export const pinCodeRegion = (query: string) => {
+  const digits = query.trim();
+  return /^[1-9]\d{1,5}$/.test(digits) ? digits.slice(0, 2) : null;
+};
+
+const pinCodeAreaSchema = z.array(
+  z.object({
+    pin: z.string().regex(/^\d{6}$/),
+    name: z.string(),
+    district: z.string(),
+    state: z.string(),
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  })
+) satisfies z.ZodType<Locality[]>;
+
+/** Each PIN code in `region` with the name of its post office and the middle of its delivery area. */
+export const fetchPinCodeAreas = async (region: string, signal?: AbortSignal): Promise<Locality[]> => {
+  const response = await fetch(`${PIN_CODE_DATA_URL}/${region}.json`, { signal });
+  // Not every pair of digits is a postal region.
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new GeocoderError(`PIN code request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    // Hosts that answer unknown paths with the app's index.html.
+    return [];
+  }
+  const parsed = pinCodeAreaSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new GeocoderError(`PIN code file for region ${region} is not in the expected format`);
+  }
+  return parsed.data;
+};
+
+export const matchPinCodes = (areas: Locality[], query: string, limit = MAX_SEARCH_RESULTS) => {
+  const digits = query.trim();
+  return areas.filter((area) => area.pin?.startsWith(digits)).slice(0, limit);
+};
+
+/** Concatenates result lists in order of preference, dropping places already listed under the same label. */
+export const mergeSearchResults = (lists: Locality[][], limit = MAX_SEARCH_RESULTS) => {
+  const seen = new Set<string>();
+  return lists
+    .flat()
+    .filter((place) => {
+      const label = placeLabel(place);
+      if (seen.has(label)) return false;
+      seen.add(label);
+      return true;
+    })
+    .slice(0, limit);
+};
+
+const MAX_RECENT_PLACES = 5;
+
+/** Places picked by hand, newest first, so a user without GPS can reuse them quickly. */
+export const recentPlaces = createPersistedStore('recent-places', z.array(pickedPlaceSchema), []);
+
+export const rememberPlace = (place: PickedPlace) => {
+  recentPlaces.update((entries) =>
+    [
+      place,
+      ...entries.filter((entry) => entry.label !== place.label || formatCoordinates(entry) !== formatCoordinates(place)),
+    ].slice(0, MAX_RECENT_PLACES)
+  );
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { ALERT_SEVERITIES } from '@/lib/alerts/types';
+
+export const preferencesSchema = z.object({
+  /** Show alerts as toasts (and, where supported, system notifications). */
+  notifications: z.boolean(),
+  /** Attach the device's coordinates to submitted reports. */
+  locationSharing: z.boolean(),
+  /** Critical alerts still notify when general notifications are off. */
+  emergencyAlerts: z.boolean(),
+  /** Least severe alert level that triggers a notification. */
+  alertThreshold: z.enum(ALERT_SEVERITIES),
+  /** Sound a siren and read critical alerts aloud as they arrive. */
+  alertSound: z.boolean(),
+});
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  notifications: true,
+  locationSharing: true,
+  emergencyAlerts: true,
+  alertThreshold: 'high',
+  alertSound: true,
+};
+
+/** Fills settings added after the value was saved with their defaults instead of discarding the rest. */
+const storedPreferencesSchema = preferencesSchema
+  .partial()
+  .transform((stored): Preferences => ({ ...DEFAULT_PREFERENCES, ...stored }));
+
+export const preferencesStore = createPersistedStore('preferences', storedPreferencesSchema, DEFAULT_PREFERENCES);
+
+export const setPreference = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+  preferencesStore.update((preferences) => ({ ...preferences, [key]: value }));
+};
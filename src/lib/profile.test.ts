@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { formatIndianPhone, normalizeIndianPhone } from './profile';
+
+describe('normalizeIndianPhone', () => {
+  it.each([
+    ['9876543210'],
+    ['98765 43210'],
+    ['98765-43210'],
+    ['(98765) 43210'],
+    ['09876543210'],
+    ['+91 98765 43210'],
+    ['+91-98765-43210'],
+    ['919876543210'],
+  ])('reads %s as +919876543210', (input) => {
+    expect(normalizeIndianPhone(input)).toBe('+919876543210');
+  });
+
+  it.each([
+    ['', 'empty input'],
+    ['5876543210', 'a number starting with 5'],
+    ['987654321', 'nine digits'],
+    ['98765432101', 'eleven digits without a leading 0'],
+    ['+1 9876543210', 'another country code'],
+    ['022 2345 6789', 'a landline'],
+    ['98765abcde', 'letters'],
+  ])('rejects %s (%s)', (input) => {
+    expect(normalizeIndianPhone(input)).toBeNull();
+  });
+});
+
+describe('formatIndianPhone', () => {
+  it('groups a mobile number for display', () => {
+    expect(formatIndianPhone('+919876543210')).toBe('+91 98765 43210');
+  });
+
+  it('leaves anything else as it was', () => {
+    expect(formatIndianPhone('1077')).toBe('1077');
+  });
+});
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { createPersistedStore } from '@/lib/persistedStore';
+import type { TranslateFn } from '@/i18n';
+
+/** Indian mobile numbers are ten digits starting with 6–9. */
+const MOBILE_NUMBER = /^[6-9]\d{9}$/;
+
+/**
+ * Normalises the ways people type an Indian mobile number ("98765 43210",
+ * "098765-43210", "+91 98765 43210", "919876543210") to E.164 (`+919876543210`).
+ * Returns null for anything that is not a valid +91 mobile number.
+ */
+export const normalizeIndianPhone = (input: string): string | null => {
+  let digits = input.replace(/[\s\-().]/g, '');
+  if (digits.startsWith('+91')) digits = digits.slice(3);
+  else if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  else if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return MOBILE_NUMBER.test(digits) ? `+91${digits}` : null;
+};
+
+/** `+919876543210` → `+91 98765 43210`. Other input is returned unchanged. */
+export const formatIndianPhone = (phone: string) => {
+  const normalized = normalizeIndianPhone(phone);
+  return normalized ? `+91 ${normalized.slice(3, 8)} ${normalized.slice(8)}` : phone;
+};
+
+export const userProfileSchema = z.object({
+  name: z.string(),
+  /** E.164, always +91. */
+  phone: z.string(),
+  /** Free-text home area, e.g. "Andheri East, Mumbai". */
+  homeArea: z.string(),
+  updatedAt: z.string().nullable(),
+});
+
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+export const EMPTY_PROFILE: UserProfile = { name: '', phone: '', homeArea: '', updatedAt: null };
+
+export const isProfileComplete = (profile: UserProfile) => !!profile.name && !!profile.phone;
+
+/** Validation for the profile form; built per language so messages are translated. */
+export const createProfileFormSchema = (t: TranslateFn) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(2, t('profile.errors.nameTooShort'))
+      .max(80, t('profile.errors.nameTooLong')),
+    phone: z
+      .string()
+      .trim()
+      .min(1, t('profile.errors.phoneRequired'))
+      .refine((value) => normalizeIndianPhone(value) !== null, t('profile.errors.phoneInvalid')),
+    homeArea: z.string().trim().max(120, t('profile.errors.homeAreaTooLong')),
+  });
+
+export type ProfileFormValues = z.infer<ReturnType<typeof createProfileFormSchema>>;
+
+export const profileStore = createPersistedStore('profile', userProfileSchema, EMPTY_PROFILE);
+
+export const saveProfile = (values: ProfileFormValues) => {
+  profileStore.set({
+    name: values.name.trim(),
+    phone: normalizeIndianPhone(values.phone) ?? values.phone,
+    homeArea: values.homeArea.trim(),
+    updatedAt: new Date().toISOString(),
+  });
+};
@@ -0,0 +1,74 @@
+import type { AlertSeverity } from '@/lib/alerts/types';
+import type { Coordinates } from '@/lib/geo';
+import { notificationPermission } from '@/lib/notifications';
+
+/** What the push server needs to decide which alerts reach this device. */
+export interface PushTargeting {
+  /** Least severe alert to push, or null to stop pushes entirely. */
+  minSeverity: AlertSeverity | null;
+  /** Omitted when the user has turned location sharing off. */
+  location: Coordinates | null;
+  language: string;
+}
+
+/**
+ * Web Push against the server at `VITE_PUSH_SERVER_URL` (see `scripts/push-server.mjs`):
+ *   GET    /vapid-public-key   { publicKey }
+ *   POST   /subscriptions      { subscription, minSeverity, location, language }
+ *   DELETE /subscriptions      { endpoint }
+ */
+const serverUrl = () => import.meta.env.VITE_PUSH_SERVER_URL?.replace(/\/$/, '');
+
+export const isPushConfigured = () =>
+  !!serverUrl() && typeof navigator !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window;
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const send = async (path: string, method: string, body?: unknown) => {
+  const response = await fetch(`${serverUrl()}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(`Push server request failed: ${response.status} ${response.statusText}`);
+  return response;
+};
+
+const getSubscription = async (create: boolean) => {
+  // The worker is only registered in production builds.
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return null;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing || !create) return existing;
+  const { publicKey } = await (await send('/vapid-public-key', 'GET')).json();
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: base64UrlToBytes(publicKey),
+  });
+};
+
+/**
+ * Brings the push subscription in line with the user's settings: subscribes (or updates
+ * the server's targeting) while notifications are wanted and permitted, unsubscribes
+ * otherwise. Safe to call whenever settings or location change.
+ */
+export const syncPushSubscription = async (targeting: PushTargeting) => {
+  if (!isPushConfigured()) return;
+
+  if (targeting.minSeverity === null || notificationPermission() !== 'granted') {
+    const subscription = await getSubscription(false);
+    if (!subscription) return;
+    await send('/subscriptions', 'DELETE', { endpoint: subscription.endpoint }).catch((error) => {
+      console.warn('Could not remove push subscription from server:', error);
+    });
+    await subscription.unsubscribe();
+    return;
+  }
+
+  const subscription = await getSubscription(true);
+  if (!subscription) return;
+  await send('/subscriptions', 'POST', { subscription: subscription.toJSON(), ...targeting });
+};
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { REPORT_SEVERITIES, REPORT_TYPES, type FloodReport } from './types';
+
+const submittedReportSchema = z.object({
+  id: z.string(),
+  type: z.enum(REPORT_TYPES),
+  severity: z.enum(REPORT_SEVERITIES),
+  createdAt: z.string(),
+});
+
+export type SubmittedReport = z.infer<typeof submittedReportSchema>;
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Reports this device has submitted. The outbox forgets delivered reports after a
+ * while and the remote API lists everyone's reports, so the user's own history is
+ * kept separately.
+ */
+export const reportHistory = createPersistedStore('report-history', z.array(submittedReportSchema), []);
+
+/**
+ * How many reports this device has ever submitted. Keeps counting after the oldest entries
+ * fall off `reportHistory`; starts from its length on devices that had a history before the
+ * count existed.
+ */
+export const submittedReportCount = createPersistedStore(
+  'report-count',
+  z.number().int().min(0),
+  reportHistory.getSnapshot().length
+);
+
+export const recordSubmittedReport = (report: FloodReport) => {
+  if (reportHistory.getSnapshot().some((entry) => entry.id === report.id)) return;
+  reportHistory.update((entries) =>
+    [
+      { id: report.id, type: report.type, severity: report.severity, createdAt: report.createdAt },
+      ...entries,
+    ].slice(0, MAX_ENTRIES)
+  );
+  submittedReportCount.update((count) => count + 1);
+};
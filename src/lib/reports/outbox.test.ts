@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FloodReport } from './types';
+
+// The outbox persists to IndexedDB, which Node does not have; an in-memory object store stands in.
+const db = vi.hoisted(() => ({ rows: new Map<string, { id: string }>() }));
+
+vi.mock('@/lib/db', () => ({
+  STORES: { reports: 'reports', outbox: 'outbox' },
+  withStore: async (_storeName: string, _mode: string, fn: (store: unknown) => unknown) =>
+    fn({
+      getAll: async () => Array.from(db.rows.values()),
+      put: async (entry: { id: string }) => void db.rows.set(entry.id, entry),
+      delete: async (id: string) => void db.rows.delete(id),
+    }),
+}));
+
+vi.mock('@/lib/serviceWorker', () => ({
+  requestBackgroundSync: vi.fn(async () => undefined),
+}));
+
+const report = (id: string): FloodReport => ({
+  id,
+  type: 'flood_level',
+  severity: 'high',
+  description: 'Knee-deep water outside the station',
+  coordinates: { lat: 19.0653, lng: 72.8793 },
+  locationSource: 'gps',
+  photos: [{ id: '1', name: 'street.jpg', type: 'image/jpeg', size: 3, blob: new Blob(['abc']) }],
+  status: 'submitted',
+  createdAt: '2026-07-14T04:00:00.000Z',
+  updatedAt: '2026-07-14T04:00:00.000Z',
+});
+
+/** A fresh outbox and report store for each test; the modules keep their state in singletons. */
+const loadOutbox = async () => {
+  vi.resetModules();
+  const { reportOutbox, retryDelay } = await import('./outbox');
+  const { setReportStore } = await import('./store');
+  const save = vi.fn(async (saved: FloodReport) => saved);
+  setReportStore({ save, get: async () => null, list: async () => [] });
+  return { reportOutbox, retryDelay, save };
+};
+
+beforeEach(() => {
+  db.rows.clear();
+  vi.useFakeTimers({ now: new Date('2026-07-14T04:00:00.000Z') });
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('retryDelay', () => {
+  it('doubles from 5 seconds with each attempt', async () => {
+    const { retryDelay } = await loadOutbox();
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([5_000, 10_000, 20_000, 40_000]);
+  });
+
+  it('never waits more than 15 minutes', async () => {
+    const { retryDelay } = await loadOutbox();
+    expect(retryDelay(8)).toBe(640_000);
+    expect(retryDelay(9)).toBe(15 * 60_000);
+    expect(retryDelay(30)).toBe(15 * 60_000);
+  });
+
+  it('adds up to 20% jitter either way', async () => {
+    const { retryDelay } = await loadOutbox();
+    vi.mocked(Math.random).mockReturnValue(0);
+    expect(retryDelay(2)).toBe(8_000);
+    vi.mocked(Math.random).mockReturnValue(0.999999);
+    expect(retryDelay(2)).toBe(12_000);
+  });
+});
+
+describe('reportOutbox.flush', () => {
+  it('sends pending reports and keeps only photo metadata afterwards', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    await reportOutbox.enqueue(report('FLD-1'));
+    await reportOutbox.flush();
+
+    expect(save).toHaveBeenCalledOnce();
+    expect(save.mock.calls[0][0].photos[0].blob).toBeInstanceOf(Blob);
+    const entry = reportOutbox.get('FLD-1');
+    expect(entry).toMatchObject({ status: 'sent', attempts: 1, lastError: null, sentAt: '2026-07-14T04:00:00.000Z' });
+    expect(entry?.report.photos[0]).not.toHaveProperty('blob');
+    expect(db.rows.get('FLD-1')).toMatchObject({ status: 'sent' });
+  });
+
+  it('sends each report once when flushes overlap', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    await reportOutbox.enqueue(report('FLD-1'));
+    await Promise.all([reportOutbox.flush(), reportOutbox.flush(), reportOutbox.flush()]);
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('backs off after a failure and retries when the delay has passed', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    save.mockRejectedValueOnce(new Error('Network request failed'));
+    await reportOutbox.enqueue(report('FLD-1'));
+    await reportOutbox.flush();
+
+    expect(reportOutbox.get('FLD-1')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Network request failed',
+      nextAttemptAt: '2026-07-14T04:00:05.000Z',
+    });
+
+    // Not due yet: another flush leaves it alone.
+    await reportOutbox.flush();
+    expect(save).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    await reportOutbox.flush();
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(reportOutbox.get('FLD-1')).toMatchObject({ status: 'sent', attempts: 2, nextAttemptAt: null });
+  });
+
+  it('asks for a background sync while reports are still pending', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    const { requestBackgroundSync } = await import('@/lib/serviceWorker');
+    save.mockRejectedValueOnce(new Error('offline'));
+    await reportOutbox.enqueue(report('FLD-1'));
+    await reportOutbox.flush();
+    expect(requestBackgroundSync).toHaveBeenCalledWith('report-outbox');
+  });
+
+  it('gives up after 8 attempts until the user retries', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    save.mockRejectedValue(new Error('Server error'));
+    await reportOutbox.enqueue(report('FLD-1'));
+    await reportOutbox.flush();
+    for (let attempt = 2; attempt <= 8; attempt++) {
+      await vi.advanceTimersByTimeAsync(15 * 60_000 * 1.2);
+      await reportOutbox.flush();
+    }
+
+    expect(save).toHaveBeenCalledTimes(8);
+    expect(reportOutbox.get('FLD-1')).toMatchObject({ status: 'failed', attempts: 8, nextAttemptAt: null });
+
+    // No timer is left running for a failed entry.
+    await vi.advanceTimersByTimeAsync(60 * 60_000);
+    expect(save).toHaveBeenCalledTimes(8);
+
+    save.mockResolvedValueOnce(report('FLD-1'));
+    await reportOutbox.retry('FLD-1');
+    expect(reportOutbox.get('FLD-1')).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('resends reports left mid-send when the page closed', async () => {
+    db.rows.set('FLD-1', {
+      id: 'FLD-1',
+      report: report('FLD-1'),
+      status: 'sending',
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+      queuedAt: '2026-07-14T03:59:00.000Z',
+      sentAt: null,
+    } as { id: string });
+    const { reportOutbox, save } = await loadOutbox();
+    await reportOutbox.flush();
+    expect(save).toHaveBeenCalledOnce();
+    expect(reportOutbox.get('FLD-1')?.status).toBe('sent');
+  });
+});
+
+describe('reportOutbox.sendNow', () => {
+  it('resolves with the entry once its own attempt has finished', async () => {
+    const { reportOutbox } = await loadOutbox();
+    await reportOutbox.enqueue(report('FLD-1'));
+    await expect(reportOutbox.sendNow('FLD-1', 15_000)).resolves.toMatchObject({ status: 'sent' });
+  });
+
+  it('does not wait for other entries queued behind it', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    await reportOutbox.enqueue(report('FLD-1'));
+    vi.setSystemTime(new Date('2026-07-14T04:01:00.000Z'));
+    await reportOutbox.enqueue(report('FLD-2'));
+    // The newest report goes first; the older one then hangs.
+    save.mockImplementationOnce(async (saved) => saved).mockImplementationOnce(() => new Promise(() => {}));
+
+    await expect(reportOutbox.sendNow('FLD-2', 15_000)).resolves.toMatchObject({ id: 'FLD-2', status: 'sent' });
+    expect(reportOutbox.get('FLD-1')?.status).not.toBe('sent');
+  });
+
+  it('gives up waiting after the timeout and leaves the attempt running', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    save.mockImplementationOnce(() => new Promise(() => {}));
+    await reportOutbox.enqueue(report('FLD-1'));
+
+    const result = reportOutbox.sendNow('FLD-1', 15_000);
+    await vi.advanceTimersByTimeAsync(15_000);
+    await expect(result).resolves.toMatchObject({ status: 'sending' });
+  });
+
+  it('resolves straight away while offline', async () => {
+    const { reportOutbox, save } = await loadOutbox();
+    vi.stubGlobal('navigator', { onLine: false });
+    await reportOutbox.enqueue(report('FLD-1'));
+    await expect(reportOutbox.sendNow('FLD-1', 15_000)).resolves.toMatchObject({ status: 'pending', attempts: 0 });
+    expect(save).not.toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+});
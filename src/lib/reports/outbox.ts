@@ -0,0 +1,244 @@
+import { STORES, withStore } from '@/lib/db';
+import { requestBackgroundSync } from '@/lib/serviceWorker';
+import { getReportStore } from './store';
+import type { FloodReport } from './types';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  /** Same as the report ID. */
+  id: string;
+  report: FloodReport;
+  status: OutboxStatus;
+  attempts: number;
+  /** ISO timestamp of the next automatic retry, if one is scheduled. */
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  queuedAt: string;
+  sentAt: string | null;
+}
+
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 15 * 60_000;
+const SENT_ENTRIES_KEPT = 20;
+const SYNC_TAG = 'report-outbox';
+
+/** Exponential backoff with ±20% jitter so many devices coming back online do not retry in lockstep. */
+export const retryDelay = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const byQueuedAtDesc = (a: OutboxEntry, b: OutboxEntry) => b.queuedAt.localeCompare(a.queuedAt);
+
+class ReportOutbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<() => void>();
+  private loaded: Promise<void> | null = null;
+  private flushQueue: Promise<void> = Promise.resolve();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  /** Loads persisted entries and sends anything still pending. Safe to call more than once. */
+  start() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('online', this.handleOnline);
+    void this.flush();
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline);
+    this.clearRetryTimer();
+  }
+
+  async enqueue(report: FloodReport): Promise<OutboxEntry> {
+    await this.load();
+    const entry: OutboxEntry = {
+      id: report.id,
+      report,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+      queuedAt: new Date().toISOString(),
+      sentAt: null,
+    };
+    await this.put(entry);
+    return entry;
+  }
+
+  /** Clears the backoff on a pending or failed entry and tries it again now. */
+  async retry(id: string) {
+    await this.load();
+    const entry = this.entries.find((item) => item.id === id);
+    if (!entry || entry.status === 'sent' || entry.status === 'sending') return;
+    await this.put({ ...entry, status: 'pending', attempts: entry.status === 'failed' ? 0 : entry.attempts, nextAttemptAt: null });
+    await this.flush();
+  }
+
+  get(id: string) {
+    return this.entries.find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * Flushes, then resolves with the entry as soon as its own delivery attempt has finished, or
+   * when the flush ends without trying it (offline), or after `timeoutMs` while it is still
+   * waiting behind other entries or in flight. Delivery carries on in the background either way.
+   */
+  sendNow(id: string, timeoutMs: number): Promise<OutboxEntry | null> {
+    const attempts = this.get(id)?.attempts ?? 0;
+    const attempted = () => {
+      const entry = this.get(id);
+      return !entry || entry.status === 'sent' || entry.status === 'failed' || (entry.status === 'pending' && entry.attempts > attempts);
+    };
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(this.get(id));
+      };
+      const timer = setTimeout(done, timeoutMs);
+      const unsubscribe = this.subscribe(() => {
+        if (attempted()) done();
+      });
+      void this.flush().then(done);
+    });
+  }
+
+  /** Sends every due entry. Calls are serialized so an entry is never sent twice concurrently. */
+  flush(): Promise<void> {
+    this.flushQueue = this.flushQueue
+      .then(() => this.sendDue())
+      .catch((error) => console.error('Report outbox flush failed:', error))
+      .finally(() => this.scheduleRetry());
+    return this.flushQueue;
+  }
+
+  private handleOnline = () => {
+    // Connectivity is back: anything waiting on a backoff timer is worth trying straight away.
+    this.entries = this.entries.map((entry) =>
+      entry.status === 'pending' ? { ...entry, nextAttemptAt: null } : entry
+    );
+    this.emit();
+    void this.flush();
+  };
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = withStore<OutboxEntry[]>(STORES.outbox, 'readonly', (store) => store.getAll())
+        .then((entries) => {
+          // An entry left as `sending` means the page closed mid-request; the server may or may not have it,
+          // and because the report ID is client-generated, sending it again is safe.
+          this.entries = entries
+            .map((entry) => (entry.status === 'sending' ? { ...entry, status: 'pending' as const } : entry))
+            .sort(byQueuedAtDesc);
+          this.emit();
+        })
+        .catch((error) => {
+          this.loaded = null;
+          throw error;
+        });
+    }
+    return this.loaded;
+  }
+
+  private async sendDue() {
+    await this.load();
+    const now = Date.now();
+    const due = this.entries.filter(
+      (entry) => entry.status === 'pending' && (!entry.nextAttemptAt || Date.parse(entry.nextAttemptAt) <= now)
+    );
+
+    for (const entry of due) {
+      if (!isOnline()) break;
+      await this.send(entry);
+    }
+
+    if (this.entries.some((entry) => entry.status === 'pending')) {
+      void requestBackgroundSync(SYNC_TAG);
+    }
+  }
+
+  private async send(entry: OutboxEntry) {
+    await this.put({ ...entry, status: 'sending' });
+    try {
+      const saved = await getReportStore().save(entry.report);
+      await this.put({
+        ...entry,
+        // Blobs are no longer needed once the backend has the report; keep only photo and video metadata.
+        report: {
+          ...saved,
+          photos: saved.photos.map(({ blob, ...photo }) => photo),
+          ...(saved.videos && { videos: saved.videos.map(({ blob, ...video }) => video) }),
+        },
+        status: 'sent',
+        attempts: entry.attempts + 1,
+        nextAttemptAt: null,
+        lastError: null,
+        sentAt: new Date().toISOString(),
+      });
+      await this.pruneSent();
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      await this.put({
+        ...entry,
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: failed ? null : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private scheduleRetry() {
+    this.clearRetryTimer();
+    const next = this.entries
+      .filter((entry) => entry.status === 'pending' && entry.nextAttemptAt)
+      .map((entry) => Date.parse(entry.nextAttemptAt!))
+      .sort((a, b) => a - b)[0];
+    if (next === undefined) return;
+    this.retryTimer = setTimeout(() => void this.flush(), Math.max(next - Date.now(), 0));
+  }
+
+  private clearRetryTimer() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async put(entry: OutboxEntry) {
+    await withStore(STORES.outbox, 'readwrite', (store) => store.put(entry));
+    this.entries = [entry, ...this.entries.filter((item) => item.id !== entry.id)].sort(byQueuedAtDesc);
+    this.emit();
+  }
+
+  private async pruneSent() {
+    const stale = this.entries.filter((entry) => entry.status === 'sent').slice(SENT_ENTRIES_KEPT);
+    if (stale.length === 0) return;
+    await withStore(STORES.outbox, 'readwrite', async (store) => {
+      stale.forEach((entry) => store.delete(entry.id));
+    });
+    this.entries = this.entries.filter((entry) => !stale.includes(entry));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const reportOutbox = new ReportOutbox();
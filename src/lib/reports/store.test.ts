@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createReport, createReportId, matchesQuery } from './store';
+import type { NewFloodReport } from './types';
+
+const NOW = new Date('2026-07-14T04:00:00.000Z');
+
+const input = (overrides: Partial<NewFloodReport> = {}): NewFloodReport => ({
+  type: 'water_logging',
+  severity: 'medium',
+  description: '  Water up to the car doors  ',
+  coordinates: { lat: 19.0653, lng: 72.8793 },
+  locationSource: 'gps',
+  placeName: 'Kurla, Mumbai Suburban, Maharashtra',
+  photos: [],
+  videos: [],
+  ...overrides,
+});
+
+describe('createReportId', () => {
+  it('encodes the time and adds a random suffix', () => {
+    const id = createReportId(NOW);
+    expect(id).toMatch(/^FLD-[0-9A-Z]+-[0-9A-Z]{4}$/);
+    expect(id.split('-')[1]).toBe(NOW.getTime().toString(36).toUpperCase());
+  });
+});
+
+describe('createReport', () => {
+  it('builds a submitted report stamped with the submission time', () => {
+    const report = createReport(input(), NOW);
+    expect(report).toMatchObject({
+      type: 'water_logging',
+      severity: 'medium',
+      description: 'Water up to the car doors',
+      coordinates: { lat: 19.0653, lng: 72.8793 },
+      locationSource: 'gps',
+      placeName: 'Kurla, Mumbai Suburban, Maharashtra',
+      photos: [],
+      status: 'submitted',
+      createdAt: '2026-07-14T04:00:00.000Z',
+      updatedAt: '2026-07-14T04:00:00.000Z',
+    });
+    expect(report).not.toHaveProperty('videos');
+  });
+
+  it('drops the location source and place name when there are no coordinates', () => {
+    const report = createReport(input({ coordinates: null }), NOW);
+    expect(report).not.toHaveProperty('locationSource');
+    expect(report).not.toHaveProperty('placeName');
+  });
+
+  it('keeps each attachment with its metadata', () => {
+    const photo = new File(['abc'], 'street.jpg', { type: 'image/jpeg' });
+    const clip = new File(['abcd'], 'clip.webm', { type: 'video/webm' });
+    const report = createReport(
+      input({
+        photos: [{ file: photo, takenAt: '2026-07-14T03:55:00.000Z' }, { file: photo, takenAt: null }],
+        videos: [{ file: clip, takenAt: null, duration: 12 }],
+      }),
+      NOW
+    );
+    expect(report.photos).toEqual([
+      { id: '1', name: 'street.jpg', type: 'image/jpeg', size: 3, takenAt: '2026-07-14T03:55:00.000Z', blob: photo },
+      { id: '2', name: 'street.jpg', type: 'image/jpeg', size: 3, blob: photo },
+    ]);
+    expect(report.videos).toEqual([{ id: '1', name: 'clip.webm', type: 'video/webm', size: 4, duration: 12, blob: clip }]);
+  });
+});
+
+describe('matchesQuery', () => {
+  const report = createReport(input(), NOW);
+
+  it('matches everything without filters', () => {
+    expect(matchesQuery(report)).toBe(true);
+  });
+
+  it('applies every filter given', () => {
+    expect(matchesQuery(report, { type: 'water_logging', severity: 'medium', status: 'submitted' })).toBe(true);
+    expect(matchesQuery(report, { type: 'flood_level' })).toBe(false);
+    expect(matchesQuery(report, { severity: 'critical' })).toBe(false);
+    expect(matchesQuery(report, { status: 'resolved' })).toBe(false);
+  });
+
+  it('includes reports made at the `since` time', () => {
+    expect(matchesQuery(report, { since: '2026-07-14T04:00:00.000Z' })).toBe(true);
+    expect(matchesQuery(report, { since: '2026-07-14T04:00:01.000Z' })).toBe(false);
+  });
+});
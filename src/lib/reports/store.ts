@@ -0,0 +1,162 @@
+import { STORES, withStore } from '@/lib/db';
+import type { FloodReport, NewFloodReport, ReportPhoto, ReportQuery, ReportVideo } from './types';
+
+export interface ReportStore {
+  save(report: FloodReport): Promise<FloodReport>;
+  get(id: string): Promise<FloodReport | null>;
+  list(query?: ReportQuery): Promise<FloodReport[]>;
+}
+
+const randomSuffix = (length: number) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (b) => (b % 36).toString(36)).join('').toUpperCase();
+};
+
+export const createReportId = (date = new Date()) =>
+  `FLD-${date.getTime().toString(36).toUpperCase()}-${randomSuffix(4)}`;
+
+/** Builds a complete report from form input. The ID is assigned here, client-side, so it is stable from the moment of submission. */
+export const createReport = (input: NewFloodReport, now = new Date()): FloodReport => {
+  const timestamp = now.toISOString();
+  const photos: ReportPhoto[] = input.photos.map(({ file, takenAt }, index) => ({
+    id: `${index + 1}`,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    ...(takenAt && { takenAt }),
+    blob: file,
+  }));
+  const videos: ReportVideo[] = input.videos.map(({ file, takenAt, duration }, index) => ({
+    id: `${index + 1}`,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    duration,
+    ...(takenAt && { takenAt }),
+    blob: file,
+  }));
+
+  return {
+    id: createReportId(now),
+    type: input.type,
+    severity: input.severity,
+    description: input.description.trim(),
+    coordinates: input.coordinates,
+    ...(input.coordinates && input.locationSource && { locationSource: input.locationSource }),
+    ...(input.coordinates && input.placeName && { placeName: input.placeName }),
+    photos,
+    ...(videos.length > 0 && { videos }),
+    status: 'submitted',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+export const matchesQuery = (report: FloodReport, query: ReportQuery = {}) =>
+  (!query.type || report.type === query.type) &&
+  (!query.severity || report.severity === query.severity) &&
+  (!query.status || report.status === query.status) &&
+  (!query.since || report.createdAt >= query.since);
+
+export class IndexedDBReportStore implements ReportStore {
+  async save(report: FloodReport) {
+    await withStore(STORES.reports, 'readwrite', (store) => store.put(report));
+    return report;
+  }
+
+  async get(id: string) {
+    const report = await withStore<FloodReport | undefined>(STORES.reports, 'readonly', (store) => store.get(id));
+    return report ?? null;
+  }
+
+  async list(query: ReportQuery = {}) {
+    const reports = await withStore<FloodReport[]>(STORES.reports, 'readonly', (store) =>
+      store.index('createdAt').getAll()
+    );
+    const matching = reports.filter((report) => matchesQuery(report, query)).reverse();
+    return query.limit ? matching.slice(0, query.limit) : matching;
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 20_000;
+/** Uploads carry photos and video, which take a while on 2G/3G. */
+const UPLOAD_TIMEOUT_MS = 120_000;
+
+export class ReportApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ReportApiError';
+  }
+}
+
+/**
+ * Talks to a remote reports API:
+ *   POST /reports       multipart: `report` (JSON) + `photos` and `videos` (files)
+ *   GET  /reports?...   FloodReport[]
+ *   GET  /reports/:id   FloodReport
+ */
+export class HttpReportStore implements ReportStore {
+  constructor(private readonly baseUrl: string) {}
+
+  /** A request that stalls on a weak connection fails after `timeoutMs`, so the outbox can back off and retry. */
+  private async request<T>(path: string, init?: RequestInit, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new ReportApiError(`Report API request failed: ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }
+
+  save(report: FloodReport) {
+    const body = new FormData();
+    const { photos, videos = [], ...fields } = report;
+    body.append('report', JSON.stringify({
+      ...fields,
+      photos: photos.map(({ blob, ...photo }) => photo),
+      ...(videos.length > 0 && { videos: videos.map(({ blob, ...video }) => video) }),
+    }));
+    photos.forEach((photo) => {
+      if (photo.blob) body.append('photos', photo.blob, photo.name);
+    });
+    videos.forEach((video) => {
+      if (video.blob) body.append('videos', video.blob, video.name);
+    });
+    return this.request<FloodReport>('/reports', { method: 'POST', body }, UPLOAD_TIMEOUT_MS);
+  }
+
+  async get(id: string) {
+    try {
+      return await this.request<FloodReport>(`/reports/${encodeURIComponent(id)}`);
+    } catch (error) {
+      if (error instanceof ReportApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  list(query: ReportQuery = {}) {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const search = params.toString();
+    return this.request<FloodReport[]>(`/reports${search ? `?${search}` : ''}`);
+  }
+}
+
+let reportStore: ReportStore | null = null;
+
+/** Uses the HTTP backend when `VITE_REPORTS_API_URL` is set, otherwise keeps reports in IndexedDB on the device. */
+export const getReportStore = (): ReportStore => {
+  if (!reportStore) {
+    const apiUrl = import.meta.env.VITE_REPORTS_API_URL;
+    reportStore = apiUrl ? new HttpReportStore(apiUrl) : new IndexedDBReportStore();
+  }
+  return reportStore;
+};
+
+export const setReportStore = (store: ReportStore) => {
+  reportStore = store;
+};
@@ -0,0 +1,105 @@
+import type { Coordinates } from '@/lib/geo';
+
+export const REPORT_TYPES = [
+  'flood_level',
+  'water_logging',
+  'property_damage',
+  'water_quality',
+  'emergency_rescue',
+] as const;
+
+export type ReportType = typeof REPORT_TYPES[number];
+
+export const REPORT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type ReportSeverity = typeof REPORT_SEVERITIES[number];
+
+/**
+ * `gps` came from the device; `manual` was searched for or pinned on a map by the reporter;
+ * `photo` was read from the GPS tags of an attached photo when neither was available.
+ */
+export type LocationSource = 'gps' | 'manual' | 'photo';
+
+export type ReportStatus = 'submitted' | 'acknowledged' | 'resolved';
+
+export interface ReportPhoto {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  /** When the photo was taken, from its EXIF data, if the camera recorded it. */
+  takenAt?: string;
+  /** Present for reports held locally. */
+  blob?: Blob;
+  /** Present for reports served by a remote backend. */
+  url?: string;
+}
+
+export interface ReportVideo {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  /** Seconds. */
+  duration: number;
+  /** When recording started, if the clip was taken with the camera. */
+  takenAt?: string;
+  /** Present for reports held locally. */
+  blob?: Blob;
+  /** Present for reports served by a remote backend. */
+  url?: string;
+}
+
+export interface FloodReport {
+  /** Stable, human-quotable ID, e.g. `FLD-M1X2Y3Z4-7QXM`. */
+  id: string;
+  type: ReportType;
+  severity: ReportSeverity;
+  description: string;
+  coordinates: Coordinates | null;
+  /** How `coordinates` were obtained. Missing on reports made before manual locations existed, which were all GPS. */
+  locationSource?: LocationSource;
+  /** Locality, district and state of `coordinates` when the report was made, for readers without a map. */
+  placeName?: string;
+  photos: ReportPhoto[];
+  /** Missing on reports made before video clips could be attached. */
+  videos?: ReportVideo[];
+  status: ReportStatus;
+  /** ISO 8601 timestamps. */
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewFloodReport {
+  type: ReportType;
+  severity: ReportSeverity;
+  description: string;
+  coordinates: Coordinates | null;
+  /** Required whenever `coordinates` is set. */
+  locationSource: LocationSource | null;
+  placeName?: string;
+  photos: NewReportPhoto[];
+  videos: NewReportVideo[];
+}
+
+export interface NewReportPhoto {
+  /** Already resized and stripped of metadata; see `preparePhoto`. */
+  file: File;
+  takenAt: string | null;
+}
+
+export interface NewReportVideo {
+  /** Already re-encoded; see `compressVideo` and `recordClip`. */
+  file: File;
+  takenAt: string | null;
+  duration: number;
+}
+
+export interface ReportQuery {
+  type?: ReportType;
+  severity?: ReportSeverity;
+  status?: ReportStatus;
+  /** Only reports created at or after this ISO timestamp. */
+  since?: string;
+  limit?: number;
+}
@@ -0,0 +1,41 @@
+type MessageHandler = (data: unknown) => void;
+
+const messageHandlers = new Map<string, Set<MessageHandler>>();
+
+const supportsServiceWorker = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+/** Registers `/sw.js` in production builds. In development the worker would cache Vite's unhashed modules. */
+export const registerServiceWorker = () => {
+  if (!supportsServiceWorker() || !import.meta.env.PROD) return;
+
+  navigator.serviceWorker.addEventListener('message', (event) => {
+    const type = event.data?.type;
+    messageHandlers.get(type)?.forEach((handler) => handler(event.data));
+  });
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
+
+export const onServiceWorkerMessage = (type: string, handler: MessageHandler) => {
+  if (!messageHandlers.has(type)) messageHandlers.set(type, new Set());
+  messageHandlers.get(type)!.add(handler);
+  return () => {
+    messageHandlers.get(type)?.delete(handler);
+  };
+};
+
+/** Asks the browser to fire a `sync` event once connectivity returns. A no-op where Background Sync is unsupported. */
+export const requestBackgroundSync = async (tag: string) => {
+  if (!supportsServiceWorker()) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+    await sync?.register(tag);
+  } catch (error) {
+    console.warn('Background sync registration failed:', error);
+  }
+};
@@ -0,0 +1,108 @@
+/** One wail: the pitch sweeps up over the first half and back down over the second. */
+const CYCLE_SECONDS = 1.4;
+const LOW_HZ = 650;
+const HIGH_HZ = 1_300;
+const VOLUME = 0.25;
+
+/**
+ * `resume()` on a context the page has not yet unlocked with a gesture stays pending
+ * until the user next taps, which may be never; the siren gives up after this long.
+ */
+const RESUME_TIMEOUT_MS = 500;
+
+let context: AudioContext | null = null;
+let playing: { oscillator: OscillatorNode; finish: () => void } | null = null;
+
+type AudioContextConstructor = typeof AudioContext;
+
+const getContext = () => {
+  if (context) return context;
+  const Constructor: AudioContextConstructor | undefined =
+    typeof window === 'undefined'
+      ? undefined
+      : window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+  if (!Constructor) return null;
+  context = new Constructor();
+  return context;
+};
+
+/**
+ * Browsers keep audio suspended until the page has seen a user gesture, and an alert may
+ * arrive long after the last tap. Resuming the context on the first interaction lets a
+ * later siren play unattended. Returns a cleanup for use in an effect.
+ */
+export const primeSirenOnFirstGesture = () => {
+  if (typeof window === 'undefined') return () => {};
+  const events = ['pointerdown', 'keydown'] as const;
+  const prime = () => {
+    void getContext()?.resume();
+    events.forEach((event) => window.removeEventListener(event, prime));
+  };
+  events.forEach((event) => window.addEventListener(event, prime));
+  return () => events.forEach((event) => window.removeEventListener(event, prime));
+};
+
+export const stopSiren = () => {
+  if (!playing) return;
+  playing.oscillator.stop();
+  playing.finish();
+};
+
+const isRunning = (audio: AudioContext) => audio.state === 'running';
+
+/** Resolves once the context is running, or after `RESUME_TIMEOUT_MS` if the browser will not start it. */
+const resumeContext = async (audio: AudioContext) => {
+  if (isRunning(audio)) return true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, RESUME_TIMEOUT_MS);
+  });
+  await Promise.race([audio.resume().catch(() => {}), timeout]);
+  clearTimeout(timer);
+  return isRunning(audio);
+};
+
+/**
+ * Plays a rising-and-falling siren for `cycles` wails. Resolves when it ends or is
+ * stopped, or without a sound when audio is still locked because the user has not
+ * interacted with the page, so whatever follows the siren is not held up.
+ */
+export const playSiren = async ({ cycles = 3 }: { cycles?: number } = {}) => {
+  const audio = getContext();
+  if (!audio) return;
+  stopSiren();
+  if (!(await resumeContext(audio))) return;
+
+  const start = audio.currentTime;
+  const end = start + cycles * CYCLE_SECONDS;
+  const oscillator = audio.createOscillator();
+  const gain = audio.createGain();
+  oscillator.type = 'sawtooth';
+  oscillator.frequency.setValueAtTime(LOW_HZ, start);
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    const cycleStart = start + cycle * CYCLE_SECONDS;
+    oscillator.frequency.linearRampToValueAtTime(HIGH_HZ, cycleStart + CYCLE_SECONDS / 2);
+    oscillator.frequency.linearRampToValueAtTime(LOW_HZ, cycleStart + CYCLE_SECONDS);
+  }
+  // Short fades avoid clicks at either end.
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(VOLUME, start + 0.05);
+  gain.gain.setValueAtTime(VOLUME, end - 0.1);
+  gain.gain.linearRampToValueAtTime(0, end);
+  oscillator.connect(gain).connect(audio.destination);
+
+  return new Promise<void>((resolve) => {
+    const current = {
+      oscillator,
+      finish: () => {
+        if (playing === current) playing = null;
+        gain.disconnect();
+        resolve();
+      },
+    };
+    playing = current;
+    oscillator.onended = current.finish;
+    oscillator.start(start);
+    oscillator.stop(end);
+  });
+};
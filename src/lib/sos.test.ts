@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { translate, type TranslateFn } from '@/i18n';
+import { STALE_AFTER_MS, type LocationFix } from './location';
+import { activeSosEvent, composeSosMessage, recordSosMessage, sosLog, type SosSnapshot } from './sos';
+
+const NOW = new Date('2026-07-14T09:30:00+05:30');
+
+const t: TranslateFn = (key, params) => translate('en', key, params);
+
+const fix = (ageMs: number): LocationFix => ({ lat: 19.0653, lng: 72.8793, accuracy: 25, timestamp: NOW.getTime() - ageMs });
+
+const snapshot = (overrides: Partial<SosSnapshot> = {}): SosSnapshot => ({
+  fix: fix(30_000),
+  placeName: 'Kurla, Mumbai Suburban, Maharashtra',
+  battery: 42,
+  senderName: 'Asha',
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  sosLog.set([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('composeSosMessage', () => {
+  it('gives the place, coordinates, map link and the time of a fresh fix', () => {
+    const lines = composeSosMessage('start', snapshot(), 'en', t).split('\n');
+    expect(lines[0]).toBe(t('sos.message.start'));
+    expect(lines).toContain('From: Asha');
+    expect(lines).toContain('Location: Kurla, Mumbai Suburban, Maharashtra');
+    expect(lines).toContain('https://www.google.com/maps?q=19.065300,72.879300');
+    expect(lines.some((line) => line.startsWith('Location taken: '))).toBe(true);
+    expect(lines.some((line) => line.startsWith('⚠️'))).toBe(false);
+    expect(lines).toContain('Battery: 42%');
+  });
+
+  it('flags a stale fix as the last known location before the place', () => {
+    const lines = composeSosMessage('update', snapshot({ fix: fix(STALE_AFTER_MS + 60_000) }), 'en', t).split('\n');
+    const warning = lines.findIndex((line) => line.startsWith('⚠️ Last known location, from '));
+    expect(warning).toBeGreaterThan(0);
+    expect(warning).toBeLessThan(lines.indexOf('Location: Kurla, Mumbai Suburban, Maharashtra'));
+    expect(lines.some((line) => line.startsWith('Location taken: '))).toBe(false);
+  });
+
+  it('says so when there is no fix', () => {
+    const message = composeSosMessage('start', snapshot({ fix: null, placeName: null }), 'en', t);
+    expect(message).toContain(t('sos.message.noLocation'));
+    expect(message).not.toContain('google.com/maps');
+  });
+
+  it('leaves the location and an empty sender out of the closing message', () => {
+    const message = composeSosMessage('end', snapshot({ senderName: '', battery: null }), 'en', t);
+    expect(message).not.toContain('From:');
+    expect(message).not.toContain('Location');
+    expect(message).not.toContain('Battery');
+  });
+});
+
+describe('recordSosMessage', () => {
+  it('opens an event on start, adds updates and closes it on end', () => {
+    recordSosMessage('start', 'sms', 2, snapshot());
+    expect(activeSosEvent(sosLog.getSnapshot())?.messages).toHaveLength(1);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    recordSosMessage('update', 'sms', 2, snapshot());
+    vi.advanceTimersByTime(60_000);
+    recordSosMessage('end', 'share', 0, snapshot());
+
+    const [event] = sosLog.getSnapshot();
+    expect(sosLog.getSnapshot()).toHaveLength(1);
+    expect(event.messages.map((message) => message.kind)).toEqual(['start', 'update', 'end']);
+    expect(event.endedAt).toBe(event.messages[2].sentAt);
+    expect(activeSosEvent(sosLog.getSnapshot())).toBeNull();
+  });
+
+  it('records where and when the fix was taken', () => {
+    const located = fix(STALE_AFTER_MS + 60_000);
+    recordSosMessage('start', 'sms', 1, snapshot({ fix: located }));
+    expect(sosLog.getSnapshot()[0].messages[0]).toMatchObject({
+      lat: located.lat,
+      lng: located.lng,
+      accuracy: 25,
+      fixedAt: new Date(located.timestamp).toISOString(),
+      battery: 42,
+    });
+  });
+
+  it('closes a still-open SOS when a new one starts', () => {
+    recordSosMessage('start', 'sms', 1, snapshot());
+    vi.advanceTimersByTime(60_000);
+    recordSosMessage('start', 'sms', 1, snapshot({ fix: null }));
+    const [current, previous] = sosLog.getSnapshot();
+    expect(current.endedAt).toBeNull();
+    expect(previous.endedAt).toBe(current.startedAt);
+    expect(current.messages[0]).toMatchObject({ lat: null, fixedAt: null });
+  });
+});
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import type { TranslateFn } from '@/i18n';
+import { formatDistance } from '@/lib/geo';
+import { isFixStale, type LocationFix } from '@/lib/location';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { formatCoordinates } from '@/lib/places';
+
+/** How often an active SOS asks the user to send their contacts a fresh location. */
+export const SOS_UPDATE_INTERVAL_MS = 5 * 60_000;
+
+/** Holding the SOS button this long starts it, so a pocket tap does not alarm anyone. */
+export const SOS_HOLD_MS = 1500;
+
+export type SosMessageKind = 'start' | 'update' | 'end';
+
+/** `sms` opens the SMS app addressed to the trusted contacts; `share` opens the system share sheet. */
+export type SosChannel = 'sms' | 'share';
+
+const sosMessageSchema = z.object({
+  kind: z.enum(['start', 'update', 'end']),
+  channel: z.enum(['sms', 'share']),
+  sentAt: z.string(),
+  recipients: z.number(),
+  lat: z.number().nullable(),
+  lng: z.number().nullable(),
+  accuracy: z.number().nullable(),
+  /** When the device took the fix that was sent; messages logged before this was recorded have none. */
+  fixedAt: z.string().nullable().default(null),
+  /** 0–100, or null where the browser does not expose the battery. */
+  battery: z.number().nullable(),
+});
+
+const sosEventSchema = z.object({
+  id: z.string(),
+  startedAt: z.string(),
+  /** Null while the SOS is still active. */
+  endedAt: z.string().nullable(),
+  /** Oldest first. */
+  messages: z.array(sosMessageSchema),
+});
+
+export type SosMessage = z.infer<typeof sosMessageSchema>;
+
+export type SosEvent = z.infer<typeof sosEventSchema>;
+
+const MAX_EVENTS = 50;
+
+/** Every SOS raised on this device, newest first. The first entry is the active one while its `endedAt` is null. */
+export const sosLog = createPersistedStore('sos-log', z.array(sosEventSchema), []);
+
+export const activeSosEvent = (events: SosEvent[]) => (events[0]?.endedAt === null ? events[0] : null);
+
+/** When the active SOS should next send a location update. */
+export const nextSosUpdateAt = (event: SosEvent) => {
+  const last = event.messages[event.messages.length - 1];
+  return new Date(last?.sentAt ?? event.startedAt).getTime() + SOS_UPDATE_INTERVAL_MS;
+};
+
+/** What is known about the user at the moment a message is composed. */
+export interface SosSnapshot {
+  fix: LocationFix | null;
+  /** "Kurla, Mumbai Suburban, Maharashtra", when the place has been named. */
+  placeName: string | null;
+  battery: number | null;
+  /** The user's own name from their profile; may be empty. */
+  senderName: string;
+}
+
+/** A link that opens in Google Maps on most Indian phones and in any browser elsewhere. */
+export const mapLink = ({ lat, lng }: { lat: number; lng: number }) =>
+  `https://www.google.com/maps?q=${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+const formatMessageTime = (time: number, language: string) =>
+  new Date(time).toLocaleString(`${language}-IN`, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Plain text, one fact per line, so it reads well in an SMS and survives being forwarded.
+ * The location carries the time of its fix; a stale one is flagged as the last known
+ * location up front, as the user may have moved far from it since.
+ */
+export const composeSosMessage = (
+  kind: SosMessageKind,
+  { fix, placeName, battery, senderName }: SosSnapshot,
+  language: string,
+  t: TranslateFn
+) => {
+  const lines = [t(`sos.message.${kind}`)];
+  if (senderName) lines.push(t('sos.message.from', { name: senderName }));
+  if (kind !== 'end') {
+    if (fix) {
+      const fixedAt = formatMessageTime(fix.timestamp, language);
+      const stale = isFixStale(fix);
+      if (stale) lines.push(t('sos.message.lastKnown', { time: fixedAt }));
+      if (placeName) lines.push(t('sos.message.place', { place: placeName }));
+      lines.push(
+        t('sos.message.coordinates', {
+          coordinates: formatCoordinates(fix),
+          accuracy: formatDistance(fix.accuracy / 1000, language),
+        }),
+        mapLink(fix)
+      );
+      if (!stale) lines.push(t('sos.message.fixedAt', { time: fixedAt }));
+    } else {
+      lines.push(t('sos.message.noLocation'));
+    }
+  }
+  if (battery !== null) lines.push(t('sos.message.battery', { level: battery }));
+  lines.push(t('sos.message.time', { time: formatMessageTime(Date.now(), language) }));
+  return lines.join('\n');
+};
+
+/**
+ * `sms:` URI for several recipients. Android and iOS both accept comma-separated numbers
+ * with `?body=`; the user still presses Send, as browsers cannot send SMS themselves.
+ */
+export const smsLink = (phones: string[], body: string) => `sms:${phones.join(',')}?body=${encodeURIComponent(body)}`;
+
+/**
+ * Hands the message to the SMS app or share sheet. Must run inside a click handler:
+ * browsers only open either from a user gesture, which is also why the periodic updates
+ * prompt the user instead of sending on a timer. Resolves to the channel actually used
+ * (SMS where sharing is unsupported), or null if the user dismissed the share sheet.
+ */
+export const deliverSosMessage = async (
+  channel: SosChannel,
+  phones: string[],
+  body: string
+): Promise<SosChannel | null> => {
+  if (channel === 'share' && navigator.share) {
+    try {
+      await navigator.share({ text: body });
+      return 'share';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      throw error;
+    }
+  }
+  window.location.href = smsLink(phones, body);
+  return 'sms';
+};
+
+/** Adds a sent message to the log, opening a new SOS event on `start` and closing it on `end`. */
+export const recordSosMessage = (
+  kind: SosMessageKind,
+  channel: SosChannel,
+  recipients: number,
+  { fix, battery }: SosSnapshot
+) => {
+  const message: SosMessage = {
+    kind,
+    channel,
+    sentAt: new Date().toISOString(),
+    recipients,
+    lat: fix?.lat ?? null,
+    lng: fix?.lng ?? null,
+    accuracy: fix?.accuracy ?? null,
+    fixedAt: fix ? new Date(fix.timestamp).toISOString() : null,
+    battery,
+  };
+  const now = message.sentAt;
+  sosLog.update((events) => {
+    const active = activeSosEvent(events);
+    if (kind === 'start' || !active) {
+      const event: SosEvent = { id: crypto.randomUUID(), startedAt: now, endedAt: null, messages: [message] };
+      // A start while another SOS is somehow still open closes the old one first.
+      const rest = active ? [{ ...active, endedAt: now }, ...events.slice(1)] : events;
+      return [event, ...rest].slice(0, MAX_EVENTS);
+    }
+    const updated = { ...active, messages: [...active.messages, message], endedAt: kind === 'end' ? now : null };
+    return [updated, ...events.slice(1)];
+  });
+};
+
+/** Ends the active SOS without telling anyone, e.g. when it was raised by mistake. */
+export const cancelSos = () => {
+  sosLog.update((events) => {
+    const active = activeSosEvent(events);
+    return active ? [{ ...active, endedAt: new Date().toISOString() }, ...events.slice(1)] : events;
+  });
+};
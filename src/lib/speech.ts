@@ -0,0 +1,104 @@
+import type { Language } from '@/i18n';
+
+/** Speech engines pick voices by BCP 47 tag; the Indian variants read numbers and place names best. */
+const SPEECH_LOCALES: Record<Language, string> = {
+  en: 'en-IN',
+  hi: 'hi-IN',
+  ta: 'ta-IN',
+  te: 'te-IN',
+  bn: 'bn-IN',
+  mr: 'mr-IN',
+  gu: 'gu-IN',
+  kn: 'kn-IN',
+};
+
+/** Slightly slower than default so announcements are easier to follow. */
+const SPEECH_RATE = 0.9;
+
+let speakingId: string | null = null;
+const listeners = new Set<() => void>();
+
+const setSpeakingId = (id: string | null) => {
+  if (speakingId === id) return;
+  speakingId = id;
+  listeners.forEach((listener) => listener());
+};
+
+/** Which readout is playing, by the ID it was started with, for `useSyncExternalStore`. */
+export const speechState = {
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  getSnapshot: () => speakingId,
+};
+
+export const isSpeechSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+const normalizeTag = (tag: string) => tag.replace('_', '-').toLowerCase();
+
+/** Prefers the Indian regional voice, then any voice for the language. */
+export const findVoice = (language: Language) => {
+  if (!isSpeechSupported()) return undefined;
+  const voices = window.speechSynthesis.getVoices();
+  const locale = normalizeTag(SPEECH_LOCALES[language]);
+  return (
+    voices.find((voice) => normalizeTag(voice.lang) === locale) ??
+    voices.find((voice) => normalizeTag(voice.lang).split('-')[0] === language)
+  );
+};
+
+/**
+ * False only when the engine has listed its voices and none speaks `language`. Some
+ * browsers load voices lazily and report an empty list at first; give them the benefit
+ * of the doubt.
+ */
+export const hasVoiceFor = (language: Language) =>
+  isSpeechSupported() && (window.speechSynthesis.getVoices().length === 0 || findVoice(language) !== undefined);
+
+export const stopSpeaking = () => {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+  setSpeakingId(null);
+};
+
+/**
+ * Reads `parts` aloud in order, replacing whatever was being read. Each part is a separate
+ * utterance: some engines cut long utterances off after about fifteen seconds. Resolves
+ * when the last part finishes or the readout is stopped.
+ */
+export const speak = (id: string, parts: string[], language: Language) =>
+  new Promise<void>((resolve) => {
+    const texts = parts.map((part) => part.trim()).filter(Boolean);
+    if (!isSpeechSupported() || texts.length === 0) {
+      resolve();
+      return;
+    }
+
+    const synth = window.speechSynthesis;
+    synth.cancel();
+    const voice = findVoice(language);
+
+    texts.forEach((text, index) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = SPEECH_LOCALES[language];
+      if (voice) utterance.voice = voice;
+      utterance.rate = SPEECH_RATE;
+      if (index === texts.length - 1) {
+        utterance.onend = () => {
+          if (speakingId === id) setSpeakingId(null);
+          resolve();
+        };
+      }
+      // Cancelling ends the whole queue with an error on the current utterance.
+      utterance.onerror = () => {
+        if (speakingId === id) setSpeakingId(null);
+        resolve();
+      };
+      synth.speak(utterance);
+    });
+    setSpeakingId(id);
+  });
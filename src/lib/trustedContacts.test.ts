@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { Blob as NodeBlob } from 'node:buffer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_TRUSTED_CONTACTS,
+  TrustedContactsImportError,
+  exportTrustedContacts,
+  importTrustedContacts,
+  pickTrustedContacts,
+  trustedContacts,
+  type TrustedContact,
+} from './trustedContacts';
+
+const saved = (name: string, phone: string, priority = 2): TrustedContact => ({
+  id: crypto.randomUUID(),
+  name,
+  phone,
+  relationship: 'family',
+  priority,
+});
+
+const backup = (contacts: unknown[]) =>
+  new Blob([JSON.stringify({ app: 'suraksha-sankat-sahayak', version: 1, exportedAt: '2026-07-14T00:00:00Z', contacts })]);
+
+const entry = (name: string, phone: string, priority = 2) => ({ name, phone, relationship: 'neighbour', priority });
+
+beforeEach(() => {
+  // jsdom's Blob has no text(), which reading a backup relies on.
+  vi.stubGlobal('Blob', NodeBlob);
+  trustedContacts.set([]);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('importTrustedContacts', () => {
+  it('adds new numbers in calling order and skips ones already saved', async () => {
+    trustedContacts.set([saved('Asha', '+919876543210')]);
+    const result = await importTrustedContacts(
+      backup([entry('Asha again', '+919876543210'), entry('Ravi', '+919812345678', 1), entry('Meena', '+919898989898', 3)])
+    );
+    expect(result).toEqual({ added: 2, skipped: 1 });
+    expect(trustedContacts.getSnapshot().map((contact) => contact.name)).toEqual(['Ravi', 'Asha', 'Meena']);
+  });
+
+  it('normalizes numbers and skips ones that are not Indian mobiles', async () => {
+    const result = await importTrustedContacts(
+      backup([entry('Ravi', '098123 45678'), entry('Office', '022 2345 6789'), entry('Ravi twice', '+91 98123 45678')])
+    );
+    expect(result).toEqual({ added: 1, skipped: 2 });
+    expect(trustedContacts.getSnapshot()[0]).toMatchObject({ name: 'Ravi', phone: '+919812345678' });
+  });
+
+  it('names a contact without a name after their number', async () => {
+    await importTrustedContacts(backup([entry('  ', '+919812345678')]));
+    expect(trustedContacts.getSnapshot()[0].name).toBe('+919812345678');
+  });
+
+  it('stops at the limit without pushing anyone out', async () => {
+    const existing = Array.from({ length: MAX_TRUSTED_CONTACTS - 1 }, (_, index) =>
+      saved(`Contact ${index}`, `+9198000000${String(index).padStart(2, '0')}`)
+    );
+    trustedContacts.set(existing);
+    const result = await importTrustedContacts(backup([entry('Ravi', '+919812345678'), entry('Meena', '+919898989898')]));
+    expect(result).toEqual({ added: 1, skipped: 1 });
+    expect(trustedContacts.getSnapshot()).toHaveLength(MAX_TRUSTED_CONTACTS);
+  });
+
+  it('reads back its own export', async () => {
+    trustedContacts.set([saved('Asha', '+919876543210', 1), saved('Ravi', '+919812345678')]);
+    const file = exportTrustedContacts();
+    trustedContacts.set([]);
+    expect(await importTrustedContacts(file)).toEqual({ added: 2, skipped: 0 });
+    expect(trustedContacts.getSnapshot().map(({ name, phone, priority }) => [name, phone, priority])).toEqual([
+      ['Asha', '+919876543210', 1],
+      ['Ravi', '+919812345678', 2],
+    ]);
+  });
+
+  it('rejects files that are not a contacts backup', async () => {
+    await expect(importTrustedContacts(new Blob(['not json']))).rejects.toThrow(TrustedContactsImportError);
+    await expect(importTrustedContacts(new Blob([JSON.stringify({ contacts: [] })]))).rejects.toThrow(
+      TrustedContactsImportError
+    );
+    expect(trustedContacts.getSnapshot()).toEqual([]);
+  });
+});
+
+describe('pickTrustedContacts', () => {
+  it('adds each picked person with their first Indian mobile number', async () => {
+    const select = vi.fn(async () => [
+      { name: ['Ravi'], tel: ['022 2345 6789', '+91 98123 45678'] },
+      { name: ['Office'], tel: ['022 2345 6789'] },
+      { tel: ['9898989898'] },
+    ]);
+    vi.stubGlobal('navigator', { ...navigator, contacts: { select } });
+    expect(await pickTrustedContacts()).toEqual({ added: 2, skipped: 1 });
+    expect(trustedContacts.getSnapshot().map(({ name, phone }) => [name, phone])).toEqual([
+      ['+919898989898', '+919898989898'],
+      ['Ravi', '+919812345678'],
+    ]);
+  });
+
+  it('adds nobody where the Contact Picker is unsupported', async () => {
+    expect(await pickTrustedContacts()).toEqual({ added: 0, skipped: 0 });
+  });
+});
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { normalizeIndianPhone } from '@/lib/profile';
+import type { TranslateFn } from '@/i18n';
+
+export const RELATIONSHIPS = ['family', 'neighbour', 'friend', 'society', 'colleague', 'other'] as const;
+
+export type Relationship = (typeof RELATIONSHIPS)[number];
+
+/** 1 is called first. */
+export const PRIORITIES = [1, 2, 3] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+const trustedContactSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** E.164, always +91. */
+  phone: z.string(),
+  // Defaults keep contacts saved before these fields existed.
+  relationship: z.enum(RELATIONSHIPS).default('other'),
+  priority: z.number().int().min(1).max(3).default(2),
+});
+
+export type TrustedContact = z.infer<typeof trustedContactSchema>;
+
+/** SMS apps cap the recipients of one message; beyond this an SOS would be split or dropped. */
+export const MAX_TRUSTED_CONTACTS = 10;
+
+/** Highest priority first, then by name, which is the order to call them in. */
+const byPriority = (a: TrustedContact, b: TrustedContact) => a.priority - b.priority || a.name.localeCompare(b.name);
+
+/** Family, neighbours and friends who can be called from the Emergency tab and receive SOS messages. Kept on this device only. */
+export const trustedContacts = createPersistedStore('trusted-contacts', z.array(trustedContactSchema), []);
+
+/** Validation for the contact form; built per language so messages are translated. `editingId` is allowed to keep its own number. */
+export const createTrustedContactFormSchema = (t: TranslateFn, existing: TrustedContact[], editingId?: string) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(2, t('profile.errors.nameTooShort'))
+      .max(80, t('profile.errors.nameTooLong')),
+    phone: z
+      .string()
+      .trim()
+      .min(1, t('profile.errors.phoneRequired'))
+      .refine((value) => normalizeIndianPhone(value) !== null, t('profile.errors.phoneInvalid'))
+      .refine(
+        (value) =>
+          !existing.some((contact) => contact.id !== editingId && contact.phone === normalizeIndianPhone(value)),
+        t('trustedContacts.errors.duplicate')
+      ),
+    relationship: z.enum(RELATIONSHIPS),
+    /** A string because it comes from a Select. */
+    priority: z.enum(['1', '2', '3']),
+  });
+
+export type TrustedContactFormValues = z.infer<ReturnType<typeof createTrustedContactFormSchema>>;
+
+const fromFormValues = (values: TrustedContactFormValues) => ({
+  name: values.name.trim(),
+  phone: normalizeIndianPhone(values.phone) ?? values.phone,
+  relationship: values.relationship,
+  priority: Number(values.priority),
+});
+
+/** Null, and nothing saved, when the list is already full; no existing contact is ever pushed out. */
+export const addTrustedContact = (values: TrustedContactFormValues): TrustedContact | null => {
+  if (trustedContacts.getSnapshot().length >= MAX_TRUSTED_CONTACTS) return null;
+  const contact: TrustedContact = { id: crypto.randomUUID(), ...fromFormValues(values) };
+  trustedContacts.update((contacts) => [...contacts, contact].sort(byPriority));
+  return contact;
+};
+
+export const updateTrustedContact = (id: string, values: TrustedContactFormValues) => {
+  trustedContacts.update((contacts) =>
+    contacts.map((contact) => (contact.id === id ? { ...contact, ...fromFormValues(values) } : contact)).sort(byPriority)
+  );
+};
+
+export const removeTrustedContact = (id: string) => {
+  trustedContacts.update((contacts) => contacts.filter((contact) => contact.id !== id));
+};
+
+export interface MergeResult {
+  added: number;
+  /** Entries that were duplicates, had no valid Indian mobile number, or did not fit under the limit. */
+  skipped: number;
+}
+
+/** Adds contacts from the picker or a backup file, skipping numbers already saved. */
+const mergeContacts = (incoming: Omit<TrustedContact, 'id'>[]): MergeResult => {
+  const current = trustedContacts.getSnapshot();
+  const phones = new Set(current.map((contact) => contact.phone));
+  const added: TrustedContact[] = [];
+  for (const entry of incoming) {
+    const phone = normalizeIndianPhone(entry.phone);
+    if (!phone || phones.has(phone) || current.length + added.length >= MAX_TRUSTED_CONTACTS) continue;
+    phones.add(phone);
+    added.push({ ...entry, id: crypto.randomUUID(), name: entry.name.trim() || phone, phone });
+  }
+  if (added.length > 0) trustedContacts.set([...current, ...added].sort(byPriority));
+  return { added: added.length, skipped: incoming.length - added.length };
+};
+
+/** The parts of the Contact Picker API used here; it is not in TypeScript's DOM types. */
+interface ContactsManager {
+  select(properties: ['name', 'tel'], options: { multiple: boolean }): Promise<{ name?: string[]; tel?: string[] }[]>;
+}
+
+const contactsManager = () =>
+  typeof navigator !== 'undefined' ? (navigator as Navigator & { contacts?: ContactsManager }).contacts : undefined;
+
+/** Only Chrome on Android ships the Contact Picker; elsewhere contacts are typed in. */
+export const isContactPickerSupported = () => contactsManager() !== undefined;
+
+/**
+ * Lets the user choose people from the phone's address book. Each picked person is added
+ * with their first Indian mobile number; landlines and foreign numbers are skipped.
+ */
+export const pickTrustedContacts = async (): Promise<MergeResult> => {
+  const manager = contactsManager();
+  if (!manager) return { added: 0, skipped: 0 };
+  const picked = await manager.select(['name', 'tel'], { multiple: true });
+  return mergeContacts(
+    picked.map((entry) => ({
+      name: entry.name?.[0] ?? '',
+      phone: entry.tel?.find((tel) => normalizeIndianPhone(tel) !== null) ?? '',
+      relationship: 'other',
+      priority: 2,
+    }))
+  );
+};
+
+const backupSchema = z.object({
+  app: z.literal('suraksha-sankat-sahayak'),
+  version: z.literal(1),
+  exportedAt: z.string(),
+  contacts: z.array(trustedContactSchema.omit({ id: true })),
+});
+
+export class TrustedContactsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrustedContactsImportError';
+  }
+}
+
+/** A JSON backup of the contacts, for moving them to a new phone or sharing them within a family. */
+export const exportTrustedContacts = (): Blob => {
+  const backup: z.infer<typeof backupSchema> = {
+    app: 'suraksha-sankat-sahayak',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    contacts: trustedContacts.getSnapshot().map(({ id: _id, ...contact }) => contact),
+  };
+  return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+};
+
+/** Merges a file made by `exportTrustedContacts`. Throws TrustedContactsImportError for anything else. */
+export const importTrustedContacts = async (file: Blob): Promise<MergeResult> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new TrustedContactsImportError('Backup is not valid JSON');
+  }
+  const parsed = backupSchema.safeParse(json);
+  if (!parsed.success) throw new TrustedContactsImportError('Backup is not a trusted contacts export');
+  return mergeContacts(parsed.data.contacts);
+};
@@ -0,0 +1,189 @@
+import { drawWatermark } from '@/lib/watermark';
+
+/** Clips per report. Photos carry most reports; a clip is for water that is moving or rising. */
+export const MAX_VIDEOS = 2;
+
+/** Long enough to pan across a street or show a current; at the bitrate below, about 2 MB. */
+export const MAX_VIDEO_SECONDS = 30;
+
+/** Gallery videos are re-encoded in real time, so anything much longer than a clip is refused up front. */
+export const MAX_VIDEO_INPUT_BYTES = 200 * 1024 * 1024;
+
+/** Longest side of the recorded frame. Enough to see water against a doorway, small enough for a 2G upload. */
+const MAX_DIMENSION = 640;
+
+const FRAME_RATE = 24;
+const VIDEO_BITS_PER_SECOND = 500_000;
+const AUDIO_BITS_PER_SECOND = 32_000;
+
+/** In order of preference: Chrome and Firefox record WebM, Safari only MP4. */
+const MIME_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+const recorderMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+/** Clips are recorded from a canvas so they can be scaled down and watermarked; both need MediaRecorder and `captureStream`. */
+export const isVideoRecordingSupported = () =>
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'captureStream' in HTMLCanvasElement.prototype &&
+  recorderMimeType() !== undefined;
+
+export class VideoProcessingError extends Error {
+  constructor(message: string, public readonly reason: 'tooLarge' | 'tooLong' | 'unsupported') {
+    super(message);
+    this.name = 'VideoProcessingError';
+  }
+}
+
+/** A clip ready to attach to a report. */
+export interface PreparedVideo {
+  /** Re-encoded at a low bitrate; nothing from the original container survives. */
+  file: File;
+  takenAt: string | null;
+  /** Seconds. */
+  duration: number;
+  /** Bytes before processing, or of the recording itself for clips recorded in the app. */
+  originalSize: number;
+}
+
+export interface ClipRecording {
+  /** Ends the clip early. Safe to call more than once. */
+  stop(): void;
+  /** Settles once the recorder has flushed its last chunk. */
+  done: Promise<PreparedVideo>;
+}
+
+/**
+ * Records whatever `source` is playing, scaled down and, when `watermarkFrom` is given, with
+ * the running capture time stamped on every frame. Stops by itself after MAX_VIDEO_SECONDS or
+ * when `source` ends. `audio` tracks are mixed in as they are and left running afterwards.
+ */
+export const recordClip = (
+  source: HTMLVideoElement,
+  audio: MediaStreamTrack[],
+  watermarkFrom: Date | null
+): ClipRecording => {
+  const mimeType = recorderMimeType();
+  if (!mimeType) throw new VideoProcessingError('This browser cannot record video', 'unsupported');
+
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(source.videoWidth, source.videoHeight));
+  const canvas = document.createElement('canvas');
+  // Most encoders need even dimensions.
+  canvas.width = Math.round((source.videoWidth * scale) / 2) * 2;
+  canvas.height = Math.round((source.videoHeight * scale) / 2) * 2;
+  const context = canvas.getContext('2d');
+  if (!context || canvas.width === 0) throw new VideoProcessingError('There is no video to record', 'unsupported');
+
+  const stream = canvas.captureStream(FRAME_RATE);
+  audio.forEach((track) => stream.addTrack(track));
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+    audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+  });
+  const chunks: Blob[] = [];
+  const startedAt = performance.now();
+  let elapsed = 0;
+  let frame = 0;
+
+  const stop = () => {
+    cancelAnimationFrame(frame);
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const draw = () => {
+    elapsed = performance.now() - startedAt;
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    if (watermarkFrom) drawWatermark(context, new Date(watermarkFrom.getTime() + elapsed));
+    if (elapsed >= MAX_VIDEO_SECONDS * 1000 || source.ended) stop();
+    else frame = requestAnimationFrame(draw);
+  };
+
+  const done = new Promise<PreparedVideo>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onerror = () => reject(new VideoProcessingError('Recording failed', 'unsupported'));
+    recorder.onstop = () => {
+      stream.getVideoTracks().forEach((track) => track.stop());
+      const type = recorder.mimeType || mimeType;
+      const blob = new Blob(chunks, { type: type.split(';')[0] });
+      const name = `clip-${Date.now()}.${blob.type === 'video/mp4' ? 'mp4' : 'webm'}`;
+      resolve({
+        file: new File([blob], name, { type: blob.type }),
+        takenAt: watermarkFrom?.toISOString() ?? null,
+        duration: Math.min(MAX_VIDEO_SECONDS, Math.round(elapsed / 1000)),
+        originalSize: blob.size,
+      });
+    };
+  });
+
+  recorder.start(1000);
+  draw();
+  return { stop, done };
+};
+
+const loadVideo = (url: string) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new VideoProcessingError('The browser cannot decode this video', 'unsupported'));
+    video.src = url;
+  });
+
+/** Routes a video's sound into a track for the recorder instead of the speaker. Null where Web Audio is missing. */
+const captureAudio = (video: HTMLVideoElement) => {
+  try {
+    const audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContext.createMediaElementSource(video).connect(destination);
+    return { tracks: destination.stream.getAudioTracks(), close: () => void audioContext.close() };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Re-encodes a video from the gallery, or from the camera app when the in-app camera is
+ * unavailable, into a small clip. This plays it through once, so it takes as long as the
+ * clip. Throws VideoProcessingError for files that are too large, too long or undecodable.
+ */
+export const compressVideo = async (file: File, { watermark = false } = {}): Promise<PreparedVideo> => {
+  if (file.size > MAX_VIDEO_INPUT_BYTES) {
+    throw new VideoProcessingError(`Video is ${file.size} bytes, over the ${MAX_VIDEO_INPUT_BYTES} byte limit`, 'tooLarge');
+  }
+  const url = URL.createObjectURL(file);
+  let audio: ReturnType<typeof captureAudio> = null;
+  try {
+    const video = await loadVideo(url);
+    // A second of grace for containers that round up; WebM from some recorders reports Infinity and is capped while recording instead.
+    if (Number.isFinite(video.duration) && video.duration > MAX_VIDEO_SECONDS + 1) {
+      throw new VideoProcessingError(`Video is ${Math.round(video.duration)} s long`, 'tooLong');
+    }
+    audio = captureAudio(video);
+    try {
+      await video.play();
+    } catch {
+      // Autoplay with sound was refused; keep the picture at least.
+      video.muted = true;
+      audio?.close();
+      audio = null;
+      await video.play();
+    }
+    // Camera apps write the file as recording ends, so its modification time is close to the capture time.
+    const length = Number.isFinite(video.duration) ? video.duration * 1000 : 0;
+    const recordedAt = watermark ? new Date(file.lastModified - length) : null;
+    const prepared = await recordClip(video, audio?.tracks ?? [], recordedAt).done;
+    video.pause();
+    return { ...prepared, originalSize: file.size };
+  } finally {
+    audio?.close();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/** "0:07", "1:30". */
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
@@ -0,0 +1,38 @@
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * "2026-07-14 09:41:05 +05:30": the device's local time with its UTC offset. Numeric and
+ * the same in every language, since whoever reads the evidence may not share the reporter's.
+ */
+export const formatWatermark = (date: Date) => {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset < 0 ? '-' : '+';
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `${day} ${time} ${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+/**
+ * Burns the capture time into the bottom-right corner of a photo or video frame, on a dark
+ * strip so it stays readable over water, sky or a flash-lit wall. Sized relative to the
+ * frame so it survives the downscaling applied before upload.
+ */
+export const drawWatermark = (context: CanvasRenderingContext2D, date: Date) => {
+  const { width, height } = context.canvas;
+  const text = formatWatermark(date);
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.035));
+  const padding = Math.round(fontSize * 0.4);
+
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.font = `600 ${fontSize}px system-ui, sans-serif`;
+  context.textBaseline = 'bottom';
+  const textWidth = context.measureText(text).width;
+  const x = width - textWidth - padding * 2;
+  const y = height - fontSize - padding * 2;
+  context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  context.fillRect(x, y, textWidth + padding * 2, fontSize + padding * 2);
+  context.fillStyle = '#ffffff';
+  context.fillText(text, x + padding, height - padding);
+  context.restore();
+};
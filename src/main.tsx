@@ -1,5 +1,11 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { reportOutbox } from './lib/reports/outbox'
+import { onServiceWorkerMessage, registerServiceWorker } from './lib/serviceWorker'
 import './index.css'
 
+registerServiceWorker();
+onServiceWorkerMessage('flush-outbox', () => reportOutbox.flush());
+reportOutbox.start();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,119 +1,108 @@
 
-import React, { useState, useEffect } from 'react';
-import { Phone, MapPin, AlertTriangle, User, Camera, Send, Volume2, Settings } from 'lucide-react';
+import React, { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Phone, MapPin, MapPinOff, AlertTriangle, User, Camera, Send, Volume2, Settings, Map as MapIcon, Loader2, RotateCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import EmergencyContacts from '@/components/EmergencyContacts';
 import FloodReporting from '@/components/FloodReporting';
 import AlertSystem from '@/components/AlertSystem';
 import UserProfile from '@/components/UserProfile';
 import LanguageSelector from '@/components/LanguageSelector';
+import FloodMap from '@/components/FloodMap';
+import LocalityName from '@/components/LocalityName';
+import SosBanner from '@/components/SosBanner';
+import NotificationPrompt from '@/components/NotificationPrompt';
+import { useActiveWarningZones } from '@/hooks/use-warning-zones';
+import { useGeolocation } from '@/hooks/use-geolocation';
+import { useNow } from '@/hooks/use-now';
+import { useAlertNotifications } from '@/hooks/use-alert-notifications';
+import { usePreferences } from '@/hooks/use-preferences';
+import { usePushSubscription } from '@/hooks/use-push-subscription';
+import { notificationPermission, showAlertNotification } from '@/lib/notifications';
+import { onServiceWorkerMessage } from '@/lib/serviceWorker';
+import { playSiren, primeSirenOnFirstGesture } from '@/lib/siren';
+import { speak } from '@/lib/speech';
+import { alertReadout, shouldAnnounceAlert } from '@/lib/alerts/notifications';
+import { localizeAlert, type FloodAlert } from '@/lib/alerts/types';
+import { formatDistance } from '@/lib/geo';
+import { formatCoordinates } from '@/lib/places';
+import { formatRelativeTime } from '@/lib/datetime';
+import { useTranslation } from '@/hooks/use-translation';
+import { useEmergencyContacts } from '@/hooks/use-emergency-contacts';
+import { footerHelplines, localizedText } from '@/lib/emergencyContacts';
 
 const Index = () => {
-  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
-  const [selectedLanguage, setSelectedLanguage] = useState('en');
-
-  useEffect(() => {
-    // Get user's current location
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setCurrentLocation({
-            lat: position.coords.latitude,
-            lng: position.coords.longitude
-          });
-        },
-        (error) => {
-          console.log("Location access denied:", error);
-          toast({
-            title: "Location Access",
-            description: "Enable location access for better emergency services",
-            variant: "default"
-          });
-        }
-      );
-    }
-  }, []);
-
-  const translations = {
-    en: {
-      appTitle: "Flood Management System",
-      report: "Report",
-      alerts: "Alerts", 
-      emergency: "Emergency",
-      profile: "Profile",
-      currentLocation: "Current Location",
-      emergencyAlert: "Emergency Services Available 24/7"
-    },
-    hi: {
-      appTitle: "बाढ़ प्रबंधन प्रणाली",
-      report: "रिपोर्ट",
-      alerts: "अलर्ट",
-      emergency: "आपातकाल",
-      profile: "प्रोफाइल",
-      currentLocation: "वर्तमान स्थान",
-      emergencyAlert: "आपातकालीन सेवाएं 24/7 उपलब्ध"
-    },
-    ta: {
-      appTitle: "வெள்ளம் மேலாண்மை அமைப்பு",
-      report: "அறிக்கை",
-      alerts: "எச்சரிக்கைகள்",
-      emergency: "அவசரநிலை",
-      profile: "சுயவிவரம்",
-      currentLocation: "தற்போதைய இடம்",
-      emergencyAlert: "அவசர சேவைகள் 24/7 கிடைக்கும்"
-    },
-    te: {
-      appTitle: "వరద నిర్వహణ వ్యవస్థ",
-      report: "నివేదిక",
-      alerts: "హెచ్చరికలు",
-      emergency: "అత్యవసరం",
-      profile: "ప్రొఫైల్",
-      currentLocation: "ప్రస్తుత స్థానం",
-      emergencyAlert: "అత్యవసర సేవలు 24/7 అందుబాటులో"
-    },
-    bn: {
-      appTitle: "বন্যা ব্যবস্থাপনা সিস্টেম",
-      report: "রিপোর্ট",
-      alerts: "সতর্কতা",
-      emergency: "জরুরি",
-      profile: "প্রোফাইল",
-      currentLocation: "বর্তমান অবস্থান",
-      emergencyAlert: "জরুরি সেবা ২৪/৭ পাওয়া যায়"
-    },
-    mr: {
-      appTitle: "पूर व्यवस्थापन प्रणाली",
-      report: "अहवाल",
-      alerts: "इशारे",
-      emergency: "आपत्कालीन",
-      profile: "प्रोफाइल",
-      currentLocation: "सध्याचे स्थान",
-      emergencyAlert: "आपत्कालीन सेवा २४/७ उपलब्ध"
-    },
-    gu: {
-      appTitle: "પૂર વ્યવસ્થાપન સિસ્ટમ",
-      report: "રિપોર્ટ",
-      alerts: "ચેતવણીઓ",
-      emergency: "કટોકટી",
-      profile: "પ્રોફાઇલ",
-      currentLocation: "વર્તમાન સ્થાન",
-      emergencyAlert: "કટોકટીની સેવાઓ ૨૪/૭ ઉપલબ્ધ"
-    },
-    kn: {
-      appTitle: "ಪ್ರವಾಹ ನಿರ್ವಹಣಾ ವ್ಯವಸ್ಥೆ",
-      report: "ವರದಿ",
-      alerts: "ಎಚ್ಚರಿಕೆಗಳು",
-      emergency: "ತುರ್ತುಸ್ಥಿತಿ",
-      profile: "ಪ್ರೊಫೈಲ್",
-      currentLocation: "ಪ್ರಸ್ತುತ ಸ್ಥಳ",
-      emergencyAlert: "ತುರ್ತು ಸೇವೆಗಳು ೨೪/೭ ಲಭ್ಯ"
-    }
+  const { t, language, setLanguage } = useTranslation();
+  const helplines = footerHelplines(useEmergencyContacts().contacts);
+  const { location: currentLocation, error: locationError, locating, stale: locationStale, retry: retryLocation } = useGeolocation();
+  const now = useNow();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = searchParams.get('tab') ?? 'emergency';
+  const warningZones = useActiveWarningZones(currentLocation);
+  const { preferences } = usePreferences();
+
+  const handleTabChange = (tab: string) => {
+    setSearchParams((params) => {
+      params.set('tab', tab);
+      params.delete('alert');
+      return params;
+    }, { replace: true });
+  };
+
+  const handleViewOnMap = (alertId?: string) => {
+    setSearchParams(alertId ? { tab: 'map', alert: alertId } : { tab: 'map' });
+  };
+
+  usePushSubscription(currentLocation);
+
+  // Critical alerts are also heard, for residents who cannot read the screen. Queued so a
+  // batch of alerts is announced one after another rather than cutting each other off.
+  const announcements = useRef(Promise.resolve());
+  const announceAlert = (alert: FloodAlert) => {
+    announcements.current = announcements.current
+      .then(async () => {
+        await playSiren();
+        await speak(alert.id, alertReadout(alert, language, t), language);
+      })
+      .catch((error) => console.warn('Could not announce alert:', error));
   };
 
-  const t = translations[selectedLanguage as keyof typeof translations] || translations.en;
+  useEffect(() => primeSirenOnFirstGesture(), []);
+
+  useAlertNotifications(currentLocation, (alert) => {
+    const text = localizeAlert(alert, language);
+    if (shouldAnnounceAlert(alert, preferences)) announceAlert(alert);
+    // A background tab cannot show toasts to anyone; use a system notification when allowed.
+    if (document.visibilityState === 'hidden' && notificationPermission() === 'granted') {
+      void showAlertNotification(alert, text, () => handleViewOnMap(alert.id));
+      return;
+    }
+    toast({
+      title: `🚨 ${text.title}`,
+      description: text.areaName,
+      variant: alert.severity === 'critical' ? 'destructive' : 'default',
+      action: (
+        <ToastAction altText={t('app.viewOnMap')} onClick={() => handleViewOnMap(alert.id)}>
+          {t('app.viewOnMap')}
+        </ToastAction>
+      ),
+    });
+  });
+
+  // Notification clicks handled by the service worker land here when the app is already open.
+  useEffect(
+    () =>
+      onServiceWorkerMessage('open-alert', (data) => {
+        const alertId = (data as { alertId?: string }).alertId;
+        setSearchParams(alertId ? { tab: 'map', alert: alertId } : { tab: 'alerts' });
+      }),
+    [setSearchParams]
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
@@ -125,14 +114,14 @@ const Index = () => {
               <AlertTriangle className="w-6 h-6 text-white" />
             </div>
             <div>
-              <h1 className="text-xl font-bold text-gray-900">{t.appTitle}</h1>
-              <p className="text-sm text-gray-600">{t.emergencyAlert}</p>
+              <h1 className="text-xl font-bold text-gray-900">{t('app.appTitle')}</h1>
+              <p className="text-sm text-gray-600">{t('app.emergencyAlert')}</p>
             </div>
           </div>
           <div className="flex items-center space-x-2">
             <LanguageSelector 
-              selectedLanguage={selectedLanguage}
-              onLanguageChange={setSelectedLanguage}
+              selectedLanguage={language}
+              onLanguageChange={setLanguage}
             />
             <Button size="sm" variant="outline">
               <Settings className="w-4 h-4" />
@@ -141,62 +130,136 @@ const Index = () => {
         </div>
       </header>
 
+      <SosBanner hidden={activeTab === 'emergency'} onOpen={() => handleTabChange('emergency')} />
+
+      {/* Geofenced warning: shown whenever the user is inside an active alert area */}
+      {warningZones.length > 0 && (
+        <div role="alert" className="bg-red-600 text-white p-4 mx-4 mt-4 rounded-lg shadow-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-7 h-7 flex-shrink-0 animate-pulse" />
+            <div className="flex-1">
+              <p className="font-bold text-lg">{t('app.insideWarningZone')}</p>
+              {warningZones.map((alert) => {
+                const text = localizeAlert(alert, language);
+                return (
+                  <p key={alert.id} className="text-sm text-red-50">
+                    {text.title} — {text.areaName}
+                  </p>
+                );
+              })}
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="bg-white text-red-700 hover:bg-red-50"
+              onClick={() => handleViewOnMap(warningZones[0].id)}
+            >
+              {t('app.viewOnMap')}
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Location Status */}
-      {currentLocation && (
-        <div className="bg-green-100 border-l-4 border-green-500 p-3 mx-4 mt-4 rounded">
-          <div className="flex items-center">
-            <MapPin className="w-5 h-5 text-green-600 mr-2" />
-            <span className="text-green-800 font-medium">{t.currentLocation}: </span>
-            <span className="text-green-700 ml-1">
-              {currentLocation.lat.toFixed(4)}, {currentLocation.lng.toFixed(4)}
+      {currentLocation ? (
+        <div
+          className={`border-l-4 p-3 mx-4 mt-4 rounded ${
+            locationStale ? 'bg-yellow-100 border-yellow-500' : 'bg-green-100 border-green-500'
+          }`}
+        >
+          <div className="flex items-center flex-wrap gap-x-1">
+            <MapPin className={`w-5 h-5 mr-1 ${locationStale ? 'text-yellow-700' : 'text-green-600'}`} />
+            <span className={`font-medium ${locationStale ? 'text-yellow-900' : 'text-green-800'}`}>{t('app.currentLocation')}: </span>
+            <LocalityName
+              coordinates={currentLocation}
+              fallback={formatCoordinates(currentLocation)}
+              className={locationStale ? 'text-yellow-800' : 'text-green-700'}
+            />
+            <span className="text-xs text-gray-600">
+              ({formatCoordinates(currentLocation)} ·{' '}
+              {t('location.accuracy', { distance: formatDistance(currentLocation.accuracy / 1000, language) })} ·{' '}
+              {t('location.updated', { time: formatRelativeTime(currentLocation.timestamp, language, now) })})
             </span>
+            <Button variant="link" size="sm" className="ml-auto text-green-800" onClick={() => handleViewOnMap()}>
+              {t('app.viewOnMap')}
+            </Button>
           </div>
+          {locationStale && (
+            <div className="flex items-center mt-1 text-sm text-yellow-900">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              <span>{t('location.stale')}</span>
+              <Button variant="outline" size="sm" className="ml-auto h-7 bg-white" onClick={retryLocation}>
+                <RotateCw className="w-3 h-3 mr-1" />
+                {t('location.retry')}
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : locating ? (
+        <div className="bg-gray-100 border-l-4 border-gray-400 p-3 mx-4 mt-4 rounded flex items-center text-gray-700">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          <span>{t('location.locating')}</span>
+        </div>
+      ) : locationError && (
+        <div className="bg-orange-50 border-l-4 border-orange-500 p-3 mx-4 mt-4 rounded flex items-center text-orange-900">
+          <MapPinOff className="w-5 h-5 mr-2 flex-shrink-0" />
+          <span className="text-sm">{t(`location.errors.${locationError}`)}</span>
+          {locationError !== 'unsupported' && (
+            <Button variant="outline" size="sm" className="ml-auto h-7 bg-white" onClick={retryLocation}>
+              <RotateCw className="w-3 h-3 mr-1" />
+              {t('location.retry')}
+            </Button>
+          )}
         </div>
       )}
 
+      <NotificationPrompt />
+
       {/* Main Content */}
       <main className="max-w-6xl mx-auto p-4">
-        <Tabs defaultValue="emergency" className="w-full">
-          <TabsList className="grid w-full grid-cols-4 h-14 bg-white shadow-lg rounded-xl p-1">
+        <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+          <TabsList className="grid w-full grid-cols-5 h-14 bg-white shadow-lg rounded-xl p-1">
             <TabsTrigger value="report" className="flex flex-col items-center space-y-1 data-[state=active]:bg-blue-100 data-[state=active]:text-blue-700">
               <Camera className="w-5 h-5" />
-              <span className="text-xs font-medium">{t.report}</span>
+              <span className="text-xs font-medium">{t('app.report')}</span>
             </TabsTrigger>
             <TabsTrigger value="alerts" className="flex flex-col items-center space-y-1 data-[state=active]:bg-orange-100 data-[state=active]:text-orange-700">
               <AlertTriangle className="w-5 h-5" />
-              <span className="text-xs font-medium">{t.alerts}</span>
+              <span className="text-xs font-medium">{t('app.alerts')}</span>
+            </TabsTrigger>
+            <TabsTrigger value="map" className="flex flex-col items-center space-y-1 data-[state=active]:bg-sky-100 data-[state=active]:text-sky-700">
+              <MapIcon className="w-5 h-5" />
+              <span className="text-xs font-medium">{t('app.map')}</span>
             </TabsTrigger>
             <TabsTrigger value="emergency" className="flex flex-col items-center space-y-1 data-[state=active]:bg-red-100 data-[state=active]:text-red-700">
               <Phone className="w-5 h-5" />
-              <span className="text-xs font-medium">{t.emergency}</span>
+              <span className="text-xs font-medium">{t('app.emergency')}</span>
             </TabsTrigger>
             <TabsTrigger value="profile" className="flex flex-col items-center space-y-1 data-[state=active]:bg-green-100 data-[state=active]:text-green-700">
               <User className="w-5 h-5" />
-              <span className="text-xs font-medium">{t.profile}</span>
+              <span className="text-xs font-medium">{t('app.profile')}</span>
             </TabsTrigger>
           </TabsList>
 
           <div className="mt-6">
             <TabsContent value="report" className="space-y-4">
-              <FloodReporting 
-                currentLocation={currentLocation}
-                selectedLanguage={selectedLanguage}
-              />
+              <FloodReporting />
             </TabsContent>
 
             <TabsContent value="alerts" className="space-y-4">
-              <AlertSystem 
-                currentLocation={currentLocation}
-                selectedLanguage={selectedLanguage}
-              />
+              <AlertSystem onViewOnMap={handleViewOnMap} />
+            </TabsContent>
+
+            <TabsContent value="map" className="space-y-4">
+              <FloodMap focusAlertId={searchParams.get('alert')} />
             </TabsContent>
 
             <TabsContent value="emergency" className="space-y-4">
-              <EmergencyContacts selectedLanguage={selectedLanguage} />
+              <EmergencyContacts />
             </TabsContent>
 
             <TabsContent value="profile" className="space-y-4">
-              <UserProfile selectedLanguage={selectedLanguage} />
+              <UserProfile />
             </TabsContent>
           </div>
         </Tabs>
@@ -206,11 +269,16 @@ const Index = () => {
       <footer className="bg-gray-800 text-white py-6 mt-12">
         <div className="max-w-6xl mx-auto px-4 text-center">
           <p className="text-sm">
-            Emergency Helpline: <span className="font-bold text-red-400">1077</span> | 
-            NDMA: <span className="font-bold text-red-400">011-26701700</span>
+            {helplines.map((contact, index) => (
+              <React.Fragment key={contact.id}>
+                {index > 0 && ' | '}
+                {localizedText(contact.name, language)}:{' '}
+                <span className="font-bold text-red-400">{contact.number}</span>
+              </React.Fragment>
+            ))}
           </p>
           <p className="text-xs text-gray-400 mt-2">
-            Developed for the safety and welfare of Indian citizens
+            {t('app.footerTagline')}
           </p>
         </div>
       </footer>
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { toast } from '@/hooks/use-toast';
+import { useNow } from '@/hooks/use-now';
+import { useRequestOtp, useSession, useVerifyOtp } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-translation';
+import { AuthError, type AuthErrorCode, type OtpChallenge } from '@/lib/auth/types';
+import { formatIndianPhone, normalizeIndianPhone } from '@/lib/profile';
+import type { TranslationKey } from '@/i18n';
+import type { LoginLocationState } from '@/components/SignInPrompt';
+
+const OTP_LENGTH = 6;
+
+const errorMessages: Record<AuthErrorCode, TranslationKey> = {
+  invalid_phone: 'auth.errors.invalidPhone',
+  invalid_code: 'auth.errors.invalidCode',
+  expired: 'auth.errors.expired',
+  too_many_attempts: 'auth.errors.tooManyAttempts',
+  network: 'auth.errors.network',
+  unavailable: 'auth.errors.unavailable',
+};
+
+const Login = () => {
+  const { t } = useTranslation();
+  const session = useSession();
+  const location = useLocation();
+  const from = (location.state as LoginLocationState | null)?.from;
+  const destination = from ? `${from.pathname}${from.search}` : '/?tab=profile';
+
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestOtp = useRequestOtp();
+  const verifyOtp = useVerifyOtp();
+  const now = useNow(1_000);
+
+  if (session) return <Navigate to={destination} replace />;
+
+  const showError = (caught: unknown) => {
+    setError(t(caught instanceof AuthError ? errorMessages[caught.code] : 'auth.errors.network'));
+  };
+
+  const sendCode = async () => {
+    const normalized = normalizeIndianPhone(phone);
+    if (!normalized) {
+      setError(t('auth.errors.invalidPhone'));
+      return;
+    }
+    setError(null);
+    setCode('');
+    try {
+      setChallenge(await requestOtp.mutateAsync(normalized));
+    } catch (caught) {
+      showError(caught);
+    }
+  };
+
+  const verify = async (value: string) => {
+    if (!challenge || value.length !== OTP_LENGTH) return;
+    setError(null);
+    try {
+      await verifyOtp.mutateAsync({ challenge, code: value });
+      // The new session re-renders this page into a redirect to `destination`.
+      toast({ title: t('auth.signedIn') });
+    } catch (caught) {
+      setCode('');
+      showError(caught);
+      if (caught instanceof AuthError && caught.code === 'expired') setChallenge(null);
+    }
+  };
+
+  const resendIn = challenge ? Math.max(0, Math.ceil((Date.parse(challenge.resendAvailableAt) - now) / 1000)) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 flex flex-col items-center justify-center p-4">
+      <Card className="w-full max-w-sm shadow-lg">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-blue-600 rounded-full flex items-center justify-center mx-auto mb-2">
+            <ShieldCheck className="w-7 h-7 text-white" />
+          </div>
+          <CardTitle>{t('auth.title')}</CardTitle>
+          <CardDescription>
+            {challenge ? t('auth.codeSentTo', { phone: formatIndianPhone(challenge.phone) }) : t('auth.subtitle')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!challenge ? (
+            <form
+              className="space-y-4"
+              noValidate
+              onSubmit={(event) => {
+                event.preventDefault();
+                void sendCode();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="login-phone">{t('auth.phoneLabel')}</Label>
+                <Input
+                  id="login-phone"
+                  type="tel"
+                  inputMode="tel"
+                  autoComplete="tel"
+                  autoFocus
+                  placeholder={t('profile.phonePlaceholder')}
+                  value={phone}
+                  onChange={(event) => setPhone(event.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestOtp.isPending}>
+                {requestOtp.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {requestOtp.isPending ? t('auth.sendingCode') : t('auth.sendCode')}
+              </Button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2 flex flex-col items-center">
+                <Label htmlFor="login-otp" className="sr-only">{t('auth.codeLabel')}</Label>
+                <InputOTP
+                  id="login-otp"
+                  maxLength={OTP_LENGTH}
+                  autoFocus
+                  value={code}
+                  onChange={setCode}
+                  onComplete={verify}
+                  disabled={verifyOtp.isPending}
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                {challenge.debugCode && (
+                  <p className="text-xs text-gray-500">{t('auth.devCode', { code: challenge.debugCode })}</p>
+                )}
+              </div>
+              <Button
+                className="w-full"
+                disabled={verifyOtp.isPending || code.length !== OTP_LENGTH}
+                onClick={() => verify(code)}
+              >
+                {verifyOtp.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {verifyOtp.isPending ? t('auth.verifying') : t('auth.verify')}
+              </Button>
+              <div className="flex justify-between text-sm">
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  onClick={() => {
+                    setChallenge(null);
+                    setError(null);
+                  }}
+                >
+                  {t('auth.changeNumber')}
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  disabled={resendIn > 0 || requestOtp.isPending}
+                  onClick={() => void sendCode()}
+                >
+                  {resendIn > 0 ? t('auth.resendIn', { seconds: resendIn }) : t('auth.resend')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p role="alert" className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2 flex items-start space-x-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500 text-center">{t('auth.emergencyNote')}</p>
+        </CardContent>
+      </Card>
+      <Button asChild variant="link" className="mt-4">
+        <Link to="/">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          {t('auth.backToApp')}
+        </Link>
+      </Button>
+    </div>
+  );
+};
+
+export default Login;
@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the remote reports API. Reports stay on the device when unset. */
+  readonly VITE_REPORTS_API_URL?: string;
+  /** Alert feed endpoint. Defaults to `/api/alerts`, which the dev server mocks. */
+  readonly VITE_ALERTS_URL?: string;
+  /** Raster tile URL template. Defaults to OpenStreetMap. */
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  /** Base URL of the phone OTP auth API. A local mock provider is used when unset. */
+  readonly VITE_AUTH_API_URL?: string;
+  /** Web Push server (see scripts/push-server.mjs). Push is disabled when unset. */
+  readonly VITE_PUSH_SERVER_URL?: string;
+  /** Nominatim-compatible reverse geocoder. Only the bundled gazetteer is used when unset. */
+  readonly VITE_GEOCODER_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
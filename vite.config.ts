@@ -1,7 +1,11 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { mockAlertServer } from "./mock/alerts";
+import { publishDataFile } from "./plugins/dataFile";
+import { serviceWorkerManifest } from "./plugins/serviceWorker";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +15,9 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    mockAlertServer(),
+    publishDataFile("data/emergency-contacts.json", "src/data/emergency-contacts.json"),
+    serviceWorkerManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
@@ -19,4 +26,9 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    include: ["src/**/*.test.ts", "plugins/**/*.test.ts"],
+    // Modules that need the DOM opt in with a `@vitest-environment jsdom` comment.
+    environment: "node",
+  },
 }));